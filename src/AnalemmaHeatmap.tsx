@@ -0,0 +1,240 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AnalemmaGridCell, EphemerisModel, TimeMode, computeAnalemmaGrid } from './solar';
+import { formatUtcOffset } from './timeZones';
+
+interface AnalemmaHeatmapProps {
+  year: number;
+  ephemeris: EphemerisModel;
+  timeMode: TimeMode;  // hh:mm is the clock time of every cell; apparent solar time has no map
+  latitude: number;
+  longitude: number;
+  tzOffsetHours: number;  // Standard offset of the zone
+  timeZone?: string;  // IANA zone of the clock time; summer dates follow its daylight saving
+}
+
+type HeatmapMetric = 'axisTilt' | 'visibleFraction' | 'lobeAreaRatio';
+
+const METRICS: Array<{ key: HeatmapMetric; label: string; format: (v: number) => string }> = [
+  { key: 'axisTilt', label: 'Axis tilt', format: v => `${v >= 0 ? '+' : ''}${v.toFixed(1)}°` },
+  { key: 'visibleFraction', label: 'Year above the horizon', format: v => `${Math.round(v * 100)}%` },
+  { key: 'lobeAreaRatio', label: 'Lobe ratio', format: v => `${v.toFixed(2)} : 1` },
+];
+
+// Grid: 5° latitude bands and 15-minute clock offsets up to ±3 h
+const LATITUDES = Array.from({ length: 36 }, (_, i) => -87.5 + 5 * i);
+const OFFSETS = Array.from({ length: 25 }, (_, i) => -180 + 15 * i);
+const OFFSET_STEP = 15;
+const LATITUDE_STEP = 5;
+// The grid takes a few hundred milliseconds, so it waits for the time inputs to settle
+const GRID_DELAY_MS = 300;
+
+function metricValue(cell: AnalemmaGridCell, metric: HeatmapMetric) {
+  switch (metric) {
+    case 'axisTilt':
+      return cell.axisTiltDeg;
+    case 'visibleFraction':
+      return cell.visibleFraction;
+    case 'lobeAreaRatio':
+      return cell.lobeAreaRatio;
+  }
+}
+
+// Diverging blue-white-red for tilt, dark-to-yellow for the rest; t in [0, 1]
+function metricColor(metric: HeatmapMetric, t: number) {
+  const mix = (a: number[], b: number[], f: number) => a.map((v, i) => Math.round(v + (b[i] - v) * f));
+  const rgb = metric === 'axisTilt'
+    ? (t < 0.5 ? mix([37, 99, 235], [248, 250, 252], t * 2) : mix([248, 250, 252], [220, 38, 38], (t - 0.5) * 2))
+    : (t < 0.5 ? mix([30, 41, 59], [124, 58, 237], t * 2) : mix([124, 58, 237], [250, 204, 21], (t - 0.5) * 2));
+  return `rgb(${rgb.join(',')})`;
+}
+
+function formatOffset(minutes: number) {
+  const sign = minutes < 0 ? '−' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${Math.floor(abs / 60)}:${String(abs % 60).padStart(2, '0')}`;
+}
+
+// The map's clock: its standard offset from UT, a label, the current site's column (mean solar
+// time minus standard clock time) and, for clock time, the zone whose daylight saving applies.
+// None for apparent solar time, which follows the Sun rather than a clock.
+function mapClock(timeMode: TimeMode, longitude: number, tzOffsetHours: number, timeZone: string | undefined) {
+  switch (timeMode.kind) {
+    case 'fixedLocalTime':
+      return {
+        utcOffsetMinutes: 60 * tzOffsetHours,
+        label: timeZone ?? formatUtcOffset(tzOffsetHours),
+        siteOffset: 4 * longitude - 60 * tzOffsetHours,
+        timeZone,
+      };
+    case 'utcTime':
+      return { utcOffsetMinutes: 0, label: 'UTC', siteOffset: 4 * longitude };
+    case 'meanSolarTime':
+      return { utcOffsetMinutes: 4 * longitude, label: 'mean solar time here', siteOffset: 0 };
+    case 'apparentSolarTime':
+      return null;
+  }
+}
+
+export function AnalemmaHeatmap({ year, ephemeris, timeMode, latitude, longitude, tzOffsetHours, timeZone }: AnalemmaHeatmapProps) {
+  const [size, setSize] = useState<{ w: number; h: number }>({ w: 800, h: 420 });
+  const [metric, setMetric] = useState<HeatmapMetric>('axisTilt');
+  const [hoveredCell, setHoveredCell] = useState<AnalemmaGridCell | null>(null);
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const siteClock = mapClock(timeMode, longitude, tzOffsetHours, timeZone);
+  const hasMap = siteClock !== null;
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(() => {
+      setSize({ w: el.clientWidth, h: el.clientHeight });
+    });
+    ro.observe(el);
+    setSize({ w: el.clientWidth, h: el.clientHeight });
+    return () => ro.disconnect();
+  }, [hasMap]);
+
+  const clockMinutes = timeMode.hh * 60 + timeMode.mm;
+  const utcOffsetMinutes = siteClock?.utcOffsetMinutes ?? null;
+  const clockZone = siteClock?.timeZone;
+  const [gridTime, setGridTime] = useState({ clockMinutes, utcOffsetMinutes });
+  useEffect(() => {
+    const id = window.setTimeout(() => setGridTime(prev => (
+      prev.clockMinutes === clockMinutes && prev.utcOffsetMinutes === utcOffsetMinutes ? prev : { clockMinutes, utcOffsetMinutes }
+    )), GRID_DELAY_MS);
+    return () => window.clearTimeout(id);
+  }, [clockMinutes, utcOffsetMinutes]);
+  const cells = useMemo(() => {
+    if (gridTime.utcOffsetMinutes === null) return [];
+    return computeAnalemmaGrid({
+      year,
+      clockMinutes: gridTime.clockMinutes,
+      utcOffsetMinutes: gridTime.utcOffsetMinutes,
+      latitudesDeg: LATITUDES,
+      clockOffsetsMinutes: OFFSETS,
+      ephemeris,
+      timeZone: clockZone,
+    });
+  }, [year, gridTime, ephemeris, clockZone]);
+  const pending = gridTime.clockMinutes !== clockMinutes || gridTime.utcOffsetMinutes !== utcOffsetMinutes;
+
+  const paddingTop = 40;
+  const paddingBottom = 60;
+  const paddingLeft = 50;
+  const paddingRight = 20;
+  const chartWidth = size.w - paddingLeft - paddingRight;
+  const chartHeight = size.h - paddingTop - paddingBottom;
+  const xScale = (offset: number) => paddingLeft + ((offset - OFFSETS[0] + OFFSET_STEP / 2) / (OFFSETS.length * OFFSET_STEP)) * chartWidth;
+  const yScale = (lat: number) => paddingTop + ((90 - lat) / 180) * chartHeight;
+  const cellWidth = chartWidth / OFFSETS.length;
+  const cellHeight = (chartHeight * LATITUDE_STEP) / 180;
+
+  const metricInfo = METRICS.find(m => m.key === metric)!;
+  const values = cells.map(c => metricValue(c, metric)).filter((v): v is number => v !== null);
+  // Tilt is centred on upright; the others span their own range
+  const maxAbs = Math.max(...values.map(Math.abs), 1e-9);
+  const lo = metric === 'axisTilt' ? -maxAbs : metric === 'visibleFraction' ? 0 : Math.min(...values);
+  const hi = metric === 'axisTilt' ? maxAbs : metric === 'visibleFraction' ? 1 : Math.max(...values);
+  const scaleT = (v: number) => (hi - lo < 1e-6 ? 0.5 : (v - lo) / (hi - lo));
+
+  const siteOffset = siteClock?.siteOffset ?? null;
+  const clock = `${String(timeMode.hh).padStart(2, '0')}:${String(timeMode.mm).padStart(2, '0')}`;
+
+  if (!siteClock) {
+    return (
+      <div style={{ padding: '12px', border: '1px solid #ddd', background: '#fff', fontSize: 12, color: '#555' }}>
+        <strong>World Map</strong>: not available at a fixed apparent solar time. Every site then sees the Sun on the
+        same hour circle each day, so there is no clock offset to map; pick clock, UTC or mean solar time instead.
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div ref={containerRef} style={{ width: '100%', height: '420px' }}>
+        <svg width={size.w} height={size.h} style={{ border: '1px solid #ddd', background: '#fff' }} onMouseLeave={() => setHoveredCell(null)}>
+          {/* Cells */}
+          {cells.map(cell => {
+            const value = metricValue(cell, metric);
+            return (
+              <rect
+                key={`${cell.latitudeDeg}:${cell.clockOffsetMinutes}`}
+                x={xScale(cell.clockOffsetMinutes) - cellWidth / 2}
+                y={yScale(cell.latitudeDeg + LATITUDE_STEP / 2)}
+                width={cellWidth + 0.5}
+                height={cellHeight + 0.5}
+                fill={value === null ? '#e5e7eb' : metricColor(metric, scaleT(value))}
+                onMouseEnter={() => setHoveredCell(cell)}
+              />
+            );
+          })}
+
+          {/* Latitude axis */}
+          {[-90, -60, -30, 0, 30, 60, 90].map(lat => (
+            <g key={`lat-${lat}`}>
+              <line x1={paddingLeft - 4} y1={yScale(lat)} x2={paddingLeft} y2={yScale(lat)} stroke="#999" />
+              <text x={paddingLeft - 8} y={yScale(lat)} textAnchor="end" dominantBaseline="middle" fontSize={10} fill="#666">
+                {lat === 0 ? '0°' : `${Math.abs(lat)}°${lat > 0 ? 'N' : 'S'}`}
+              </text>
+            </g>
+          ))}
+
+          {/* Offset axis */}
+          {OFFSETS.filter(o => o % 60 === 0).map(offset => (
+            <g key={`offset-${offset}`}>
+              <line x1={xScale(offset)} y1={size.h - paddingBottom} x2={xScale(offset)} y2={size.h - paddingBottom + 4} stroke="#999" />
+              <text x={xScale(offset)} y={size.h - paddingBottom + 16} textAnchor="middle" fontSize={10} fill="#666">
+                {offset === 0 ? '0' : `${offset > 0 ? '+' : '−'}${Math.abs(offset) / 60} h`}
+              </text>
+            </g>
+          ))}
+          <text x={paddingLeft + chartWidth / 2} y={size.h - paddingBottom + 32} textAnchor="middle" fontSize={11} fill="#666">
+            Mean solar time minus clock time (east of the zone meridian is positive)
+          </text>
+
+          {/* Current site */}
+          {siteOffset !== null && Math.abs(siteOffset) <= 180 + OFFSET_STEP / 2 && (
+            <circle cx={xScale(siteOffset)} cy={yScale(latitude)} r={5} fill="none" stroke="#111" strokeWidth={2} pointerEvents="none">
+              <title>This site</title>
+            </circle>
+          )}
+
+          {/* Title and hovered cell */}
+          <text x={size.w / 2} y={18} textAnchor="middle" fontSize={14} fontWeight="bold" fill="#333">
+            World Map: {metricInfo.label} at {clock} ({siteClock.label}){pending ? ' — updating…' : ''}
+          </text>
+          <text x={size.w / 2} y={32} textAnchor="middle" fontSize={11} fill="#666">
+            {hoveredCell
+              ? `${Math.abs(hoveredCell.latitudeDeg)}°${hoveredCell.latitudeDeg >= 0 ? 'N' : 'S'}, offset ${formatOffset(hoveredCell.clockOffsetMinutes)}: ` +
+                `tilt ${METRICS[0].format(hoveredCell.axisTiltDeg)} · ${METRICS[1].format(hoveredCell.visibleFraction)} above the horizon · ` +
+                `lobes ${hoveredCell.lobeAreaRatio !== null ? METRICS[2].format(hoveredCell.lobeAreaRatio) : 'none'}`
+              : 'Hover a cell for its values; the ring marks this site'}
+          </text>
+
+          {/* Legend */}
+          <g transform={`translate(${paddingLeft}, ${size.h - 14})`} fontSize={9} fill="#666">
+            <text x={0} y={0}>{metricInfo.format(lo)}</text>
+            {Array.from({ length: 20 }, (_, i) => (
+              <rect key={i} x={50 + i * 8} y={-9} width={8} height={10} fill={metricColor(metric, (i + 0.5) / 20)} />
+            ))}
+            <text x={50 + 20 * 8 + 6} y={0}>{metricInfo.format(hi)}</text>
+          </g>
+        </svg>
+      </div>
+
+      <div style={{ marginTop: 8, display: 'flex', flexWrap: 'wrap', gap: '12px', alignItems: 'center', fontSize: 12, color: '#555' }}>
+        {METRICS.map(m => (
+          <label key={m.key} style={{ display: 'inline-flex', alignItems: 'center', gap: '4px' }}>
+            <input type="radio" name="heatmap-metric" checked={metric === m.key} onChange={() => setMetric(m.key)} />
+            {m.label}
+          </label>
+        ))}
+        <span style={{ marginLeft: 'auto', fontSize: 11, color: '#777' }}>
+          Columns are offsets from the zone's standard time; with a time zone selected, summer dates follow its daylight
+          saving. No refraction. The lobe ratio belongs to the figure on the sky, so it barely changes
+          across the map: latitude and clock offset only turn and lift the figure.
+        </span>
+      </div>
+    </div>
+  );
+}
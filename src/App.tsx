@@ -1,23 +1,91 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { AnalemmaPoint, EotPoint, TimeMode, computeAnalemmaPoints, computeEquationOfTime } from './solar';
-import { getTimeZones } from '@vvo/tzdb';
+import { AnalemmaInputs, AnalemmaPoint, DaySelection, SeasonEvent, EotPoint, EphemerisModel, HorizonPoint, LUNAR_DAY_DAYS, MAX_SAMPLES, RefractionOptions, SamplingOptions, TimeMode, SunTimesDay, analemmaFamilySampling, computeAnalemmaPoints, computeEquationOfTime, computeLiveSun, computeSunPath, computeSunTimes, findHorizonCrossings, findSeasonEvents, horizonAltitudeAt, isSameDay, measureAnalemma, parseHorizonProfile, seasonDates, parseDateISO, PLANETARY_BODIES, PlanetaryBody, SECULAR_YEAR_RANGE, solarDayHours } from './solar';
+import { formatUtcOffset, isValidTimeZone, listTimeZones, lookupTimeZone, standardOffsetMinutes, utcOffsetMinutesAt } from './timeZones';
 import { EquationOfTimeChart } from './EquationOfTimeChart';
+import { DaylightChart } from './DaylightChart';
+import { SunPathChart } from './SunPathChart';
+import { AnalemmaHeatmap } from './AnalemmaHeatmap';
 import { computeEnuDomainsAspectLocked } from './enuScaling';
+import { CameraModel, SENSOR_PRESETS, fieldOfViewDeg, isInFrame, projectToSensor } from './cameraProjection';
 
 function clamp(n: number, min: number, max: number) {
   return Math.min(max, Math.max(min, n));
 }
 
-function useAnalemma(lat: number, lon: number, timeMode: TimeMode, tzOffsetHours: number) {
+const TIME_MODE_LABELS: Record<TimeMode['kind'], string> = {
+  fixedLocalTime: 'Local clock time',
+  meanSolarTime: 'Local mean solar time',
+  utcTime: 'UTC',
+  apparentSolarTime: 'Apparent solar time (sundial)',
+};
+
+const TIME_ZONE_OPTIONS = listTimeZones();
+
+// "HH:MM, HH:MM, ..." → times of day; null if any entry is malformed
+function parseTimesOfDay(text: string): SamplingOptions['timesOfDay'] | null {
+  const entries = text.split(/[,\s]+/).filter(Boolean);
+  const times = entries.map(entry => {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(entry);
+    if (!match) return null;
+    const hh = Number(match[1]);
+    const mm = Number(match[2]);
+    return hh <= 23 && mm <= 59 ? { hh, mm } : null;
+  });
+  return times.every(t => t !== null) ? times as Array<{ hh: number; mm: number }> : null;
+}
+
+// "HH:MM" of a UT timestamp
+function formatUtcTime(ms: number | undefined) {
+  return ms === undefined ? '' : new Date(ms).toISOString().slice(11, 16);
+}
+
+// UT timestamp for exports ("2024-06-21T11:00:00Z")
+function formatTimestamp(ms: number | undefined) {
+  return ms === undefined ? '' : new Date(ms).toISOString().replace('.000Z', 'Z');
+}
+
+// "12 Feb", with the year when the samples span more than one
+function formatDayMonth(dateISO: string, withYear: boolean) {
+  const { year, month, day } = parseDateISO(dateISO);
+  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+  return `${day} ${months[month - 1]}${withYear ? ` ${year}` : ''}`;
+}
+
+// Wall-clock "HH:MM:SS" at an instant in the zone (or at the fixed offset)
+function formatClockAt(ms: number, timeZone: string | null, tzOffsetHours: number) {
+  const offsetMinutes = timeZone ? utcOffsetMinutesAt(timeZone, ms) : tzOffsetHours * 60;
+  return new Date(ms + offsetMinutes * 60000).toISOString().slice(11, 19);
+}
+
+// "3h 07m 12s"
+function formatCountdown(ms: number) {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const sec = totalSeconds % 60;
+  return `${h}h ${String(m).padStart(2, '0')}m ${String(sec).padStart(2, '0')}s`;
+}
+
+function browserTimeZone(): string | null {
+  try {
+    const tz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return tz && isValidTimeZone(tz) ? tz : null;
+  } catch {
+    return null;
+  }
+}
+
+// Inputs object must be memoized by the caller so the points are only recomputed on change
+function useAnalemma(inputs: AnalemmaInputs) {
   return useMemo<AnalemmaPoint[]>(() => {
-    return computeAnalemmaPoints({ latitudeDeg: lat, longitudeDeg: lon, timeMode, tzOffsetHours });
-  }, [lat, lon, timeMode, tzOffsetHours]);
+    return computeAnalemmaPoints(inputs);
+  }, [inputs]);
 }
 
-function useEquationOfTime(year: number) {
+function useEquationOfTime(year: number, ephemeris: EphemerisModel, body: PlanetaryBody | undefined) {
   return useMemo<EotPoint[]>(() => {
-    return computeEquationOfTime(year);
-  }, [year]);
+    return computeEquationOfTime(year, ephemeris, body);
+  }, [year, ephemeris, body]);
 }
 
 function CardinalLabels({ width, height }: { width: number; height: number }) {
@@ -36,7 +104,52 @@ function CardinalLabels({ width, height }: { width: number; height: number }) {
   );
 }
 
-function AnalemmaChartSVG({ points, label }: { points: AnalemmaPoint[]; label: string }) {
+// Moon marker: dark disk with the lit part bounded by the limb and an elliptical terminator.
+// Waxing phases are lit on the right, as seen from the northern hemisphere.
+function MoonPhaseMarker({ cx, cy, r, illumination, waxing }: { cx: number; cy: number; r: number; illumination: number; waxing: boolean }) {
+  const terminatorRx = r * Math.abs(1 - 2 * illumination);
+  const limbSweep = waxing ? 1 : 0;
+  const gibbous = illumination > 0.5;
+  const terminatorSweep = waxing === gibbous ? 1 : 0;
+  const lit = `M ${cx} ${cy - r} A ${r} ${r} 0 0 ${limbSweep} ${cx} ${cy + r} A ${terminatorRx} ${r} 0 0 ${terminatorSweep} ${cx} ${cy - r} Z`;
+  return (
+    <g>
+      <circle cx={cx} cy={cy} r={r} fill="#374151" stroke="#111827" strokeWidth={0.5} />
+      <path d={lit} fill="#fde68a" />
+    </g>
+  );
+}
+
+// 'enu' plots East against Up; the polar views put the zenith at the centre and the horizon on a circle
+// (equidistant: radius proportional to zenith distance; stereographic: conformal, shapes preserved);
+// 'camera' is what a rectilinear lens aimed at the camera angle records
+type ChartProjection = 'enu' | 'equidistant' | 'stereographic' | 'camera';
+
+const PROJECTION_LABELS: Record<ChartProjection, string> = {
+  enu: 'East / elevation',
+  equidistant: 'All-sky (equidistant)',
+  stereographic: 'All-sky (stereographic)',
+  camera: 'Camera view',
+};
+
+// dayArcs switches the chart to an analemma family: points hold one figure per timeOfDay,
+// each labeled with its time, and the arcs trace the Sun's path on the given dates
+// marker is the playback position, drawn over the figure with its date and position;
+// highlight rings the samples of a day hovered or pinned in any chart; live marks the Sun now and today's sample
+function AnalemmaChartSVG({ points, label, dayArcs, projection = 'enu', camera, horizonProfile, seasonEvents = [], marker, highlight, live, onHoverDay, onSelectDay }: {
+  points: AnalemmaPoint[];
+  label: string;
+  dayArcs?: Array<{ dateISO: string; label: string; points: AnalemmaPoint[] }>;
+  projection?: ChartProjection;
+  camera?: CameraModel;
+  horizonProfile?: HorizonPoint[];
+  seasonEvents?: SeasonEvent[];  // Equinoxes, solstices and apsides in the observer's zone
+  marker?: AnalemmaPoint;
+  highlight?: DaySelection | null;
+  live?: { current: AnalemmaPoint; today?: AnalemmaPoint };
+  onHoverDay?: (day: DaySelection | null) => void;
+  onSelectDay?: (day: DaySelection) => void;
+}) {
   const [size, setSize] = useState<{ w: number; h: number }>({ w: 800, h: 560 });
   const containerRef = React.useRef<HTMLDivElement>(null);
 
@@ -52,15 +165,24 @@ function AnalemmaChartSVG({ points, label }: { points: AnalemmaPoint[]; label: s
   }, []);
 
   const padding = 40;
-  const visible = points.filter(p => p.visible);
+  // The camera view drops directions too far off its axis to project
+  const cameraView = projection === 'camera' ? camera : undefined;
+  const drawable = (p: AnalemmaPoint) => !cameraView || projectToSensor(cameraView, p) !== null;
+  const inView = (p: AnalemmaPoint) => p.visible && drawable(p);
+  const visible = points.filter(inView);
   const hasVisible = visible.length > 0;
+  // The whole figure is framed, below-horizon part included; a family frames only the sky, as its night-time figures fill the sphere
+  const framed = dayArcs ? visible : points.filter(drawable);
+  const hasFramed = framed.length > 0;
+  // Points whose predecessor was dropped start a new path piece
+  const cameraGapStarts = new Set(cameraView ? points.filter((p, i) => i > 0 && inView(p) && !inView(points[i - 1])) : []);
 
   // ENU coordinates are now computed directly in solar.ts (stable, no azimuth singularity)
   // We'll plot E (horizontal) vs U (vertical) for a clean figure-8
-  const eMin = hasVisible ? Math.min(...visible.map(p => p.E)) : -1;
-  const eMax = hasVisible ? Math.max(...visible.map(p => p.E)) : 1;
-  const uMin = hasVisible ? Math.min(...visible.map(p => p.U)) : 0;
-  const uMax = hasVisible ? Math.max(...visible.map(p => p.U)) : 1;
+  const eMin = hasFramed ? Math.min(...framed.map(p => p.E)) : -1;
+  const eMax = hasFramed ? Math.max(...framed.map(p => p.E)) : 1;
+  const uMin = hasFramed ? Math.min(...framed.map(p => p.U)) : 0;
+  const uMax = hasFramed ? Math.max(...framed.map(p => p.U)) : 1;
 
   const plotWidthPx = Math.max(1, size.w - 2 * padding);
   const plotHeightPx = Math.max(1, size.h - 2 * padding);
@@ -77,10 +199,10 @@ function AnalemmaChartSVG({ points, label }: { points: AnalemmaPoint[]; label: s
     minSpan: 1e-6,
   });
 
-  // Scale functions for ENU coordinates
+  // Scale functions for ENU coordinates; looking towards the Sun's side of the sky, East is on the left
   const xScale = (e: number) => {
     const span = Math.max(1e-6, eDomain[1] - eDomain[0]);
-    return padding + ((e - eDomain[0]) / span) * plotWidthPx;
+    return padding + ((eDomain[1] - e) / span) * plotWidthPx;
   };
   const yScale = (u: number) => {
     const span = Math.max(1e-6, uDomain[1] - uDomain[0]);
@@ -90,11 +212,77 @@ function AnalemmaChartSVG({ points, label }: { points: AnalemmaPoint[]; label: s
   const xTicks = Array.from({ length: 6 }).map((_, i) => eDomain[0] + (i * (eDomain[1] - eDomain[0])) / 5);
   const yTicks = Array.from({ length: 6 }).map((_, i) => uDomain[0] + (i * (uDomain[1] - uDomain[0])) / 5);
 
+  // Polar views: sky seen from below with North up and East on the left, drawn down to 10° below the horizon
+  const isPolar = projection === 'equidistant' || projection === 'stereographic';
+  const POLAR_LIMIT_ZENITH_DEG = 100;
+  const zenithRadiusUnit = (zenithDeg: number) =>
+    projection === 'stereographic' ? Math.tan((zenithDeg * Math.PI) / 360) : zenithDeg / 90;
+  const polarCenterX = size.w / 2;
+  const polarCenterY = size.h / 2;
+  const polarScale = Math.min(plotWidthPx, plotHeightPx) / 2 / zenithRadiusUnit(POLAR_LIMIT_ZENITH_DEG);
+  const polarRadius = (zenithDeg: number) => polarScale * zenithRadiusUnit(zenithDeg);
+  const polarXY = (p: { E: number; N: number; U: number }) => {
+    const horizontal = Math.hypot(p.E, p.N);
+    if (horizontal < 1e-12) return { x: polarCenterX, y: polarCenterY };
+    const r = polarRadius((Math.atan2(horizontal, p.U) * 180) / Math.PI);
+    return { x: polarCenterX - (r * p.E) / horizontal, y: polarCenterY - (r * p.N) / horizontal };
+  };
+
+  // Camera view: sensor millimetres, scaled so the frame and the figure both fit (the figure up to 3 frames across)
+  const sensorPoints = cameraView ? visible.map(p => projectToSensor(cameraView, p)!) : [];
+  const cameraHalfExtent = (frameMm: number, offsets: number[]) =>
+    Math.min(1.5 * frameMm, Math.max(0.6 * frameMm, ...offsets.map(o => 1.05 * Math.abs(o))));
+  const cameraScale = cameraView
+    ? Math.min(
+        plotWidthPx / (2 * cameraHalfExtent(cameraView.sensorWidthMm, sensorPoints.map(sp => sp.x))),
+        plotHeightPx / (2 * cameraHalfExtent(cameraView.sensorHeightMm, sensorPoints.map(sp => sp.y)))
+      )
+    : 1;
+  const cameraXY = (p: { E: number; N: number; U: number }) => {
+    const sp = cameraView && projectToSensor(cameraView, p);
+    if (!sp) return { x: size.w / 2, y: size.h / 2 };
+    return { x: size.w / 2 + sp.x * cameraScale, y: size.h / 2 - sp.y * cameraScale };
+  };
+  const framePoints = cameraView ? sensorPoints.filter(sp => isInFrame(cameraView, sp)).length : 0;
+  // The horizon is a great circle, so a straight line through two of its points
+  const horizonEnds = cameraView
+    ? [-30, 30]
+        .map(dAz => {
+          const az = ((cameraView.azimuthDeg + dAz) * Math.PI) / 180;
+          return projectToSensor(cameraView, { E: Math.sin(az), N: Math.cos(az), U: 0 });
+        })
+        .filter((sp): sp is { x: number; y: number } => sp !== null)
+    : [];
+
+  // Screen position of a sky direction in the selected projection
+  const px = (p: { E: number; N: number; U: number }) => (isPolar ? polarXY(p).x : cameraView ? cameraXY(p).x : xScale(p.E));
+  const py = (p: { E: number; N: number; U: number }) => (isPolar ? polarXY(p).y : cameraView ? cameraXY(p).y : yScale(p.U));
+
+  // Horizon profile as a skyline closed 10° below the horizon: all the way round in the polar views,
+  // otherwise across the half of the sky the figure is in
+  let skylinePath = '';
+  if (horizonProfile) {
+    const skyDirection = (azimuthDeg: number, altitudeDeg: number) => {
+      const az = (azimuthDeg * Math.PI) / 180;
+      const alt = (altitudeDeg * Math.PI) / 180;
+      return { E: Math.cos(alt) * Math.sin(az), N: Math.cos(alt) * Math.cos(az), U: Math.sin(alt) };
+    };
+    const facingDeg = cameraView
+      ? cameraView.azimuthDeg
+      : (Math.atan2(visible.reduce((sum, p) => sum + p.E, 0), visible.reduce((sum, p) => sum + p.N, 0)) * 180) / Math.PI;
+    const azimuths = Array.from({ length: 181 }, (_, i) => (isPolar ? 2 * i : facingDeg - 90 + i));
+    const edge = azimuths.map(az => skyDirection(az, horizonAltitudeAt(horizonProfile, az)));
+    const base = azimuths.map(az => skyDirection(az, -10)).reverse();
+    const outline = [...edge, ...base].filter(d => !cameraView || projectToSensor(cameraView, d) !== null);
+    skylinePath = outline.map((d, i) => `${i === 0 ? 'M' : 'L'} ${px(d).toFixed(2)} ${py(d).toFixed(2)}`).join(' ') + ' Z';
+  }
+  const obstructedCount = visible.filter(p => p.obstructed).length;
+
   // Build path with breaks near zenith to avoid rendering through singularity
+  const ENU_JUMP_THRESHOLD = 0.3; // Break if E or N jumps by more than this
   const paths: string[] = [];
   if (hasVisible && visible.length > 0) {
     const ZENITH_ALT_THRESHOLD = 89.0; // Break path above this altitude
-    const ENU_JUMP_THRESHOLD = 0.3; // Break if E or N jumps by more than this
     let currentSegment: string[] = [];
     let zenithBreakCount = 0;
 
@@ -102,8 +290,18 @@ function AnalemmaChartSVG({ points, label }: { points: AnalemmaPoint[]; label: s
       const p = visible[i];
       let shouldBreak = false;
 
-      // Break if altitude is very high
-      if (p.altitudeDeg > ZENITH_ALT_THRESHOLD) {
+      // Start a new piece at a DST jump so the two clock-time halves are not joined,
+      // and between the figures for different times of day
+      const newSeries = i > 0 && (
+        p.utcOffsetHours !== visible[i - 1].utcOffsetHours || p.timeOfDay !== visible[i - 1].timeOfDay || cameraGapStarts.has(p)
+      );
+      if (newSeries && currentSegment.length > 0) {
+        paths.push(currentSegment.join(' '));
+        currentSegment = [];
+      }
+
+      // Break if altitude is very high (the polar and camera views are continuous through the zenith)
+      if (projection === 'enu' && p.altitudeDeg > ZENITH_ALT_THRESHOLD) {
         shouldBreak = true;
       }
 
@@ -128,7 +326,7 @@ function AnalemmaChartSVG({ points, label }: { points: AnalemmaPoint[]; label: s
       } else {
         // Add point to current segment
         const cmd = currentSegment.length === 0 ? 'M' : 'L';
-        currentSegment.push(`${cmd} ${xScale(p.E).toFixed(2)} ${yScale(p.U).toFixed(2)}`);
+        currentSegment.push(`${cmd} ${px(p).toFixed(2)} ${py(p).toFixed(2)}`);
       }
     }
 
@@ -138,66 +336,294 @@ function AnalemmaChartSVG({ points, label }: { points: AnalemmaPoint[]; label: s
     }
   }
 
+  // The rest of the curve below the horizon, including the segments that cross it (not for families)
+  const hiddenPaths: string[] = [];
+  if (!dayArcs) {
+    let segment: string[] = [];
+    const flush = () => {
+      if (segment.length > 1) hiddenPaths.push(segment.join(' '));
+      segment = [];
+    };
+    points.forEach((p, i) => {
+      const prev = points[i - 1];
+      const joined = prev !== undefined
+        && (!p.visible || !prev.visible)
+        && p.timeOfDay === prev.timeOfDay
+        && p.utcOffsetHours === prev.utcOffsetHours
+        && drawable(p) && drawable(prev)
+        && Math.abs(p.E - prev.E) <= ENU_JUMP_THRESHOLD && Math.abs(p.N - prev.N) <= ENU_JUMP_THRESHOLD;
+      if (!joined) {
+        flush();
+        return;
+      }
+      if (segment.length === 0) segment.push(`M ${px(prev).toFixed(2)} ${py(prev).toFixed(2)}`);
+      segment.push(`L ${px(p).toFixed(2)} ${py(p).toFixed(2)}`);
+    });
+    flush();
+  }
+
   // Identify special dates for labeling
   const labeledPoints: Array<{ point: typeof visible[0]; label: string; isSpecial: boolean }> = [];
-  
-  if (hasVisible && visible.length > 0) {
-    // Approximate dates for equinoxes and solstices (2024 values, close enough for most years)
-    const specialDates = [
-      { date: '03-20', label: 'Spring Equinox (Mar 20)', isSpecial: true },
-      { date: '06-21', label: 'Summer Solstice (Jun 21)', isSpecial: true },
-      { date: '09-22', label: 'Autumn Equinox (Sep 22)', isSpecial: true },
-      { date: '12-21', label: 'Winter Solstice (Dec 21)', isSpecial: true },
-    ];
+  const isLunar = points.length > 0 && points[0].moonIllumination !== undefined;
+
+  // Family: label each figure with its clock time at its highest point; the arcs replace date labels
+  const figureLabels: Array<{ point: AnalemmaPoint; time: string }> = [];
+  const arcPaths: Array<{ label: string; d: string; end: AnalemmaPoint }> = [];
+  if (dayArcs) {
+    const topByTime = new Map<string, AnalemmaPoint>();
+    for (const p of visible) {
+      const top = topByTime.get(p.timeOfDay ?? '');
+      if (!top || p.U > top.U) topByTime.set(p.timeOfDay ?? '', p);
+    }
+    topByTime.forEach((point, time) => figureLabels.push({ point, time }));
 
-    // Find closest match for each special date
-    const specialMatches: Array<{ point: any; label: string; distance: number }> = [];
-    for (const sd of specialDates) {
-      const [sdMonth, sdDay] = sd.date.split('-').map(Number);
-      let closestPoint: any = null;
+    for (const arc of dayArcs) {
+      const arcVisible = arc.points.filter(inView);
+      if (arcVisible.length < 2) continue;
+      const d = arc.points
+        .map((p, i) => (inView(p) ? `${i > 0 && inView(arc.points[i - 1]) ? 'L' : 'M'} ${px(p).toFixed(2)} ${py(p).toFixed(2)}` : ''))
+        .join(' ');
+      arcPaths.push({ label: arc.label, d, end: arcVisible[arcVisible.length - 1] });
+    }
+  }
+  // Other bodies use a sol calendar: label by solar longitude (Ls) instead of Earth dates
+  const isSolCalendar = points.length > 0 && points[0].sol !== undefined;
+
+  if (dayArcs) {
+    // Figures are labeled by time instead
+  } else if (hasVisible && isSolCalendar) {
+    const seasons = [
+      { ls: 0, label: 'Northern spring equinox (Ls 0°)' },
+      { ls: 90, label: 'Northern summer solstice (Ls 90°)' },
+      { ls: 180, label: 'Northern autumn equinox (Ls 180°)' },
+      { ls: 270, label: 'Northern winter solstice (Ls 270°)' },
+    ];
+    for (const season of seasons) {
+      let closest: AnalemmaPoint | null = null;
       let closestDistance = Infinity;
-      
       for (const p of visible) {
-        const month = parseInt(p.dateISO.substring(5, 7));
-        const day = parseInt(p.dateISO.substring(8, 10));
-        
-        if (month === sdMonth) {
-          const distance = Math.abs(day - sdDay);
-          if (distance <= 1 && distance < closestDistance) {
-            closestPoint = p;
-            closestDistance = distance;
-          }
+        const d = Math.abs(((p.solarLongitudeDeg! - season.ls + 540) % 360) - 180);
+        if (d < closestDistance) {
+          closest = p;
+          closestDistance = d;
+        }
+      }
+      if (closest && closestDistance < 1) {
+        labeledPoints.push({ point: closest, label: season.label, isSpecial: true });
+      }
+    }
+    const seasonDates = new Set(labeledPoints.map(lp => lp.point.dateISO));
+    visible.forEach(p => {
+      if (p.sol! > 0 && p.sol! % 100 === 0 && !seasonDates.has(p.dateISO)) {
+        labeledPoints.push({ point: p, label: `Sol ${p.sol}`, isSpecial: false });
+      }
+    });
+  } else if (hasVisible && isLunar) {
+    // Fullest and thinnest Moon in view, then the first sample of each month
+    const byIllumination = [...visible].sort((a, b) => a.moonIllumination! - b.moonIllumination!);
+    const monthLabels = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+    const shortDate = (p: AnalemmaPoint) => {
+      const { day, month } = parseDateISO(p.dateISO);
+      return `${day} ${monthLabels[month - 1]}`;
+    };
+    const fullest = byIllumination[byIllumination.length - 1];
+    const thinnest = byIllumination[0];
+    labeledPoints.push({ point: fullest, label: `Fullest (${shortDate(fullest)}, ${Math.round(fullest.moonIllumination! * 100)}%)`, isSpecial: true });
+    if (thinnest !== fullest) {
+      labeledPoints.push({ point: thinnest, label: `Thinnest (${shortDate(thinnest)}, ${Math.round(thinnest.moonIllumination! * 100)}%)`, isSpecial: true });
+    }
+    visible.forEach((p, i) => {
+      if (p === fullest || p === thinnest || i === 0) return;
+      if (parseDateISO(p.dateISO).month !== parseDateISO(visible[i - 1].dateISO).month) {
+        labeledPoints.push({ point: p, label: shortDate(p), isSpecial: false });
+      }
+    });
+  } else if (hasVisible && visible.length > 0) {
+    // Equinoxes, solstices and apsides: the sample on the event's local date, or failing that the day either side
+    const monthLabels = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+    const multiYear = parseDateISO(points[0].dateISO).year !== parseDateISO(points[points.length - 1].dateISO).year;
+    const dayNumber = (dateISO: string) => {
+      const { year, month, day } = parseDateISO(dateISO);
+      const date = new Date(0);
+      date.setUTCFullYear(year, month - 1, day);
+      return Math.round(date.getTime() / 86400000);
+    };
+    const firstFigure = visible.filter(p => p.timeOfDay === points[0].timeOfDay);
+    for (const event of seasonEvents) {
+      const eventDay = dayNumber(event.dateISO);
+      let closestPoint: AnalemmaPoint | null = null;
+      let closestDistance = Infinity;
+      for (const p of firstFigure) {
+        const distance = Math.abs(dayNumber(p.dateISO) - eventDay);
+        if (distance <= 1 && distance < closestDistance) {
+          closestPoint = p;
+          closestDistance = distance;
         }
       }
-      
       if (closestPoint !== null) {
-        specialMatches.push({ point: closestPoint, label: sd.label, distance: closestDistance });
+        const { year, month, day } = parseDateISO(event.dateISO);
+        labeledPoints.push({
+          point: closestPoint,
+          label: `${event.label} (${day} ${monthLabels[month - 1]}${multiYear ? ` ${year}` : ''}, ${event.localTime})`,
+          isSpecial: true,
+        });
       }
     }
 
-    // Add special date labels
-    specialMatches.forEach(sm => {
-      labeledPoints.push({ point: sm.point, label: sm.label, isSpecial: true });
-    });
+    // DST transitions: first day drawn on the new UTC offset
+    for (let i = 1; i < points.length; i++) {
+      const prev = points[i - 1];
+      const p = points[i];
+      if (p.utcOffsetHours === undefined || prev.utcOffsetHours === undefined) continue;
+      if (p.timeOfDay !== prev.timeOfDay) continue;
+      if (p.utcOffsetHours === prev.utcOffsetHours || !inView(p)) continue;
+      const starts = p.utcOffsetHours > prev.utcOffsetHours;
+      const { day, month: monthNum } = parseDateISO(p.dateISO);
+      const month = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'][monthNum - 1];
+      labeledPoints.push({
+        point: p,
+        label: `${starts ? 'DST starts' : 'DST ends'} (${day} ${month}, ${formatUtcOffset(p.utcOffsetHours)})`,
+        isSpecial: true,
+      });
+    }
 
-    // First day of each month (excluding those already labeled as special)
-    const monthLabels = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    const specialDateISOs = new Set(specialMatches.map(sm => sm.point.dateISO));
+    // First sample of each month (excluding those already labeled as special);
+    // with daily sampling this is the 1st. Spans over several years also show the year.
+    // With several times of day only the first figure is labeled.
+    const specialPoints = new Set(labeledPoints.map(lp => lp.point));
     
-    visible.forEach((p: any) => {
-      const day = parseInt(p.dateISO.substring(8, 10));
-      const month = parseInt(p.dateISO.substring(5, 7)) - 1; // 0-indexed
+    points.forEach((p, i) => {
+      const { year, day, month: monthNum } = parseDateISO(p.dateISO);
+      const month = monthNum - 1; // 0-indexed
+      const prev = i > 0 && points[i - 1].timeOfDay === p.timeOfDay ? parseDateISO(points[i - 1].dateISO) : null;
+      const firstOfMonth = day === 1 || (prev !== null && (prev.month !== monthNum || prev.year !== year) && prev.day !== day - 1);
       
-      if (day === 1 && !specialDateISOs.has(p.dateISO)) {
-        labeledPoints.push({ point: p, label: `1 ${monthLabels[month]}`, isSpecial: false });
+      if (inView(p) && firstOfMonth && p.timeOfDay === points[0].timeOfDay && !specialPoints.has(p)) {
+        labeledPoints.push({ point: p, label: `${day} ${monthLabels[month]}${multiYear ? ` ${year}` : ''}`, isSpecial: false });
       }
     });
   }
 
+  // Hover and click pick the nearest drawn sample within a few pixels
+  const HOVER_RADIUS_PX = 10;
+  const nearestSample = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    let nearest: AnalemmaPoint | null = null;
+    let nearestDistance = HOVER_RADIUS_PX;
+    for (const p of visible) {
+      const d = Math.hypot(px(p) - x, py(p) - y);
+      if (d < nearestDistance) {
+        nearest = p;
+        nearestDistance = d;
+      }
+    }
+    return nearest;
+  };
+  const [hoveredSample, setHoveredSample] = useState<AnalemmaPoint | null>(null);
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const p = nearestSample(e);
+    if (p === hoveredSample) return;
+    setHoveredSample(p);
+    onHoverDay?.(p && { dateISO: p.dateISO, sol: p.sol });
+  };
+  const handleMouseLeave = () => {
+    if (hoveredSample) onHoverDay?.(null);
+    setHoveredSample(null);
+  };
+  const highlighted = highlight ? visible.filter(p => isSameDay(p, highlight)) : [];
+
   return (
     <div ref={containerRef} style={{ width: '100%', height: '500px' }}>
-      <svg viewBox={`0 0 ${size.w} ${size.h}`} width="100%" height="100%" role="img" aria-label="Sun analemma chart">
+      <svg
+        viewBox={`0 0 ${size.w} ${size.h}`}
+        width="100%"
+        height="100%"
+        role="img"
+        aria-label="Sun analemma chart"
+        style={{ cursor: hoveredSample ? 'pointer' : 'default' }}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={handleMouseLeave}
+        onClick={(e) => {
+          const p = nearestSample(e);
+          if (p) onSelectDay?.({ dateISO: p.dateISO, sol: p.sol });
+        }}
+      >
         <rect x={0} y={0} width={size.w} height={size.h} fill="#fff" />
+        {isPolar ? (
+          <g>
+            {/* Below-horizon margin, altitude rings and azimuth spokes */}
+            <circle cx={polarCenterX} cy={polarCenterY} r={polarRadius(POLAR_LIMIT_ZENITH_DEG)} fill="#f3f4f6" />
+            <circle cx={polarCenterX} cy={polarCenterY} r={polarRadius(90)} fill="#fff" stroke="#666" />
+            {[15, 30, 45, 60, 75].map(alt => (
+              <g key={`ring${alt}`}>
+                <circle cx={polarCenterX} cy={polarCenterY} r={polarRadius(90 - alt)} fill="none" stroke="#e5e7eb" strokeDasharray="2,2" />
+                <text x={polarCenterX + 3} y={polarCenterY - polarRadius(90 - alt) - 2} fontSize={9} fill="#999">{alt}°</text>
+              </g>
+            ))}
+            {Array.from({ length: 12 }).map((_, i) => {
+              const az = i * 30;
+              const dir = { E: Math.sin((az * Math.PI) / 180), N: Math.cos((az * Math.PI) / 180), U: 0 };
+              const edge = polarXY(dir);
+              const labelRadius = polarRadius(POLAR_LIMIT_ZENITH_DEG) + 12;
+              const compass: Record<number, string> = { 0: 'N', 90: 'E', 180: 'S', 270: 'W' };
+              return (
+                <g key={`spoke${az}`}>
+                  <line x1={polarCenterX} y1={polarCenterY} x2={edge.x} y2={edge.y} stroke="#e5e7eb" />
+                  <text
+                    x={polarCenterX - labelRadius * dir.E}
+                    y={polarCenterY - labelRadius * dir.N}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    fontSize={compass[az] ? 12 : 9}
+                    fontWeight={compass[az] ? 'bold' : 'normal'}
+                    fill={compass[az] ? '#555' : '#999'}
+                  >
+                    {compass[az] ?? `${az}°`}
+                  </text>
+                </g>
+              );
+            })}
+          </g>
+        ) : cameraView ? (
+          <g>
+            {/* Horizon, optical axis and the sensor frame */}
+            {horizonEnds.length === 2 && (() => {
+              const [a, b] = horizonEnds.map(sp => ({ x: size.w / 2 + sp.x * cameraScale, y: size.h / 2 - sp.y * cameraScale }));
+              const reach = (size.w + size.h) / Math.max(1e-6, Math.hypot(b.x - a.x, b.y - a.y));
+              return (
+                <g clipPath="url(#analemma-plot)">
+                  <line
+                    x1={a.x - (b.x - a.x) * reach}
+                    y1={a.y - (b.y - a.y) * reach}
+                    x2={a.x + (b.x - a.x) * reach}
+                    y2={a.y + (b.y - a.y) * reach}
+                    stroke="#666"
+                  />
+                </g>
+              );
+            })()}
+            <line x1={size.w / 2 - 6} y1={size.h / 2} x2={size.w / 2 + 6} y2={size.h / 2} stroke="#999" />
+            <line x1={size.w / 2} y1={size.h / 2 - 6} x2={size.w / 2} y2={size.h / 2 + 6} stroke="#999" />
+            <rect
+              x={size.w / 2 - (cameraView.sensorWidthMm / 2) * cameraScale}
+              y={size.h / 2 - (cameraView.sensorHeightMm / 2) * cameraScale}
+              width={cameraView.sensorWidthMm * cameraScale}
+              height={cameraView.sensorHeightMm * cameraScale}
+              fill="none"
+              stroke="#111"
+              strokeWidth={1.5}
+            />
+            <text x={padding} y={size.h - padding + 14} fontSize={12} fill="#777">
+              {`${cameraView.focalLengthMm} mm, ${fieldOfViewDeg(cameraView).horizontal.toFixed(1)}° × ${fieldOfViewDeg(cameraView).vertical.toFixed(1)}° field of view · `}
+              {framePoints === sensorPoints.length
+                ? 'Figure fits the frame'
+                : `${sensorPoints.length - framePoints} of ${sensorPoints.length} points outside the frame`}
+            </text>
+          </g>
+        ) : (
+        <g>
         {/* Axes */}
         <line x1={padding} y1={size.h - padding} x2={size.w - padding} y2={size.h - padding} stroke="#ddd" />
         <line x1={padding} y1={padding} x2={padding} y2={size.h - padding} stroke="#ddd" />
@@ -236,35 +662,90 @@ function AnalemmaChartSVG({ points, label }: { points: AnalemmaPoint[]; label: s
         {/* Axis labels */}
         <text x={padding} y={size.h - padding + 14} fontSize={12} fill="#777">East ←→ West</text>
         <text x={size.w - padding + 6} y={padding} fontSize={12} fill="#777" transform={`rotate(90 ${size.w - padding + 6} ${padding})`}>Elevation</text>
+        {/* Horizon (U = 0) */}
+        {uDomain[0] < 0 && uDomain[1] > 0 && (
+          <g>
+            <line x1={padding} y1={yScale(0)} x2={size.w - padding} y2={yScale(0)} stroke="#666" strokeWidth={1} />
+            <text x={size.w - padding - 4} y={yScale(0) - 4} textAnchor="end" fontSize={10} fill="#666">Horizon</text>
+          </g>
+        )}
+        </g>
+        )}
+        {/* Horizon profile */}
+        {skylinePath && (
+          <g clipPath="url(#analemma-plot)">
+            <path d={skylinePath} fill="#a8a29e" fillOpacity={0.45} stroke="#57534e" strokeWidth={1} fillRule="evenodd" />
+          </g>
+        )}
+        {horizonProfile && hasVisible && (
+          <text x={size.w - padding} y={size.h - padding + 28} textAnchor="end" fontSize={12} fill="#57534e">
+            {obstructedCount === 0 ? 'Nothing hidden by the horizon profile' : `${obstructedCount} of ${visible.length} points behind the horizon profile`}
+          </text>
+        )}
         {/* No daylight message */}
         {hasVisible ? null : (
-          <text x={size.w / 2} y={size.h / 2} textAnchor="middle" fill="#777">No daylight at this solar time for this location.</text>
+          <text x={size.w / 2} y={size.h / 2} textAnchor="middle" fill="#777">
+            {isLunar ? 'The Moon is below the horizon at every sample for this location.' : 'No daylight at this solar time for this location.'}
+          </text>
         )}
-        {/* Analemma path */}
-        {paths.map((path, idx) => (
-          <path key={idx} d={path} fill="none" stroke="#0b6cfb" strokeWidth={2} />
+        {/* Below-horizon part of the curve */}
+        <g clipPath={projection !== 'enu' ? 'url(#analemma-plot)' : undefined}>
+          {hiddenPaths.map((path, idx) => (
+            <path key={idx} d={path} fill="none" stroke={isLunar ? '#9ca3af' : '#0b6cfb'} strokeWidth={1.25} strokeDasharray="4,3" opacity={0.5} />
+          ))}
+        </g>
+        {/* Analemma path (the camera view can run past the plot) */}
+        <g clipPath={cameraView ? 'url(#analemma-plot)' : undefined}>
+          {paths.map((path, idx) => (
+            <path key={idx} d={path} fill="none" stroke={isLunar ? '#9ca3af' : '#0b6cfb'} strokeWidth={isLunar ? 1 : 2} />
+          ))}
+        </g>
+        {/* Family: day-arcs and the clock time of each figure */}
+        <clipPath id="analemma-plot">
+          {isPolar
+            ? <circle cx={polarCenterX} cy={polarCenterY} r={polarRadius(POLAR_LIMIT_ZENITH_DEG)} />
+            : <rect x={padding} y={padding} width={plotWidthPx} height={plotHeightPx} />}
+        </clipPath>
+        {arcPaths.map(arc => (
+          <g key={arc.label} clipPath="url(#analemma-plot)">
+            <path d={arc.d} fill="none" stroke="#d97706" strokeWidth={1.25} strokeDasharray="6,3" />
+            <text x={px(arc.end) + 4} y={py(arc.end) - 4} fontSize={10} fill="#b45309">{arc.label}</text>
+          </g>
+        ))}
+        {figureLabels.map(fl => (
+          <text
+            key={fl.time}
+            x={px(fl.point)}
+            y={py(fl.point) - 8}
+            textAnchor="middle"
+            fontSize={11}
+            fontWeight="bold"
+            fill="#1e3a8a"
+          >
+            {fl.time}
+          </text>
         ))}
         {/* Date labels with leader lines */}
         {labeledPoints.map((lp, idx) => {
-          const x = xScale(lp.point.E);
-          const y = yScale(lp.point.U);
+          const x = px(lp.point);
+          const y = py(lp.point);
           
           // Find the index of this point in the visible array
-          const pointIdx = visible.findIndex(p => p.dateISO === lp.point.dateISO);
+          const pointIdx = visible.indexOf(lp.point);
           
           // Calculate analemma centroid for outward normal detection
-          const allX = visible.map(p => xScale(p.E));
-          const allY = visible.map(p => yScale(p.U));
+          const allX = visible.map(p => px(p));
+          const allY = visible.map(p => py(p));
           const centroidX = allX.reduce((a, b) => a + b, 0) / allX.length;
           const centroidY = allY.reduce((a, b) => a + b, 0) / allY.length;
           
           // Step 1: Calculate local tangent using neighboring points
           const prevIdx = Math.max(0, pointIdx - 1);
           const nextIdx = Math.min(visible.length - 1, pointIdx + 1);
-          const prevX = xScale(visible[prevIdx].E);
-          const prevY = yScale(visible[prevIdx].U);
-          const nextX = xScale(visible[nextIdx].E);
-          const nextY = yScale(visible[nextIdx].U);
+          const prevX = px(visible[prevIdx]);
+          const prevY = py(visible[prevIdx]);
+          const nextX = px(visible[nextIdx]);
+          const nextY = py(visible[nextIdx]);
           
           // Tangent vector (normalized)
           const tangentDx = nextX - prevX;
@@ -355,17 +836,70 @@ function AnalemmaChartSVG({ points, label }: { points: AnalemmaPoint[]; label: s
             </g>
           );
         })}
-        {/* Regular markers for all other points */}
-        {visible.map((p, idx) => {
-          const isLabeled = labeledPoints.some(lp => lp.point.dateISO === p.dateISO);
-          if (isLabeled) return null;
+        {/* Regular markers for all other points (omitted for families, where the lines carry the figure) */}
+        <g clipPath={cameraView ? 'url(#analemma-plot)' : undefined}>
+        {!dayArcs && visible.map((p, idx) => {
+          const isLabeled = labeledPoints.some(lp => lp.point === p);
+          if (isLabeled && !isLunar) return null;
+          if (isLunar) {
+            const time = formatUtcTime(p.timestampMs);
+            return (
+              <g key={idx} opacity={p.obstructed ? 0.35 : 1}>
+                <MoonPhaseMarker cx={px(p)} cy={py(p)} r={6} illumination={p.moonIllumination!} waxing={p.moonWaxing!} />
+                <title>{`${label}\n${p.dateISO} (${time} UT), ${Math.round(p.moonIllumination! * 100)}% lit, ${p.moonWaxing ? 'waxing' : 'waning'}\nAlt ${p.altitudeDeg.toFixed(1)}°, Az ${p.azimuthDeg.toFixed(1)}°${p.obstructed ? '\nBehind the horizon profile' : ''}`}</title>
+              </g>
+            );
+          }
           return (
             <g key={idx}>
-              <circle cx={xScale(p.E)} cy={yScale(p.U)} r={2.5} fill="#0b6cfb" stroke="#084fc8" strokeWidth={0.5} />
-              <title>{`${label}\n${p.dateISO}\nAlt ${p.altitudeDeg.toFixed(1)}°, Az ${p.azimuthDeg.toFixed(1)}°`}</title>
+              <circle
+                cx={px(p)}
+                cy={py(p)}
+                r={2.5}
+                fill={p.obstructed ? '#fff' : '#0b6cfb'}
+                stroke={p.obstructed ? '#78716c' : '#084fc8'}
+                strokeWidth={p.obstructed ? 1 : 0.5}
+              />
+              <title>{`${label}\n${p.sol !== undefined ? `Sol ${p.sol} (${p.dateISO}), Ls ${p.solarLongitudeDeg!.toFixed(1)}°` : `${p.dateISO}${p.timeOfDay ? ` ${p.timeOfDay}` : ''}`}\nAlt ${p.altitudeDeg.toFixed(1)}°, Az ${p.azimuthDeg.toFixed(1)}°${p.obstructed ? '\nBehind the horizon profile' : ''}`}</title>
             </g>
           );
         })}
+        </g>
+        {/* Day hovered or pinned in any chart */}
+        {highlighted.map((p, idx) => (
+          <circle key={`highlight-${idx}`} cx={px(p)} cy={py(p)} r={isLunar ? 9 : 6} fill="none" stroke="#7c3aed" strokeWidth={2} pointerEvents="none" />
+        ))}
+        {/* Live: today's sample and the Sun now */}
+        {live && (
+          <g clipPath="url(#analemma-plot)" pointerEvents="none">
+            {live.today && drawable(live.today) && (
+              <g>
+                <circle cx={px(live.today)} cy={py(live.today)} r={7} fill="none" stroke="#16a34a" strokeWidth={2} />
+                <text x={px(live.today) + 10} y={py(live.today) + 4} fontSize={11} fontWeight="bold" fill="#15803d">Today</text>
+              </g>
+            )}
+            {drawable(live.current) && (
+              <g opacity={live.current.visible ? 1 : 0.5}>
+                <circle cx={px(live.current)} cy={py(live.current)} r={7} fill="#f97316" stroke="#c2410c" strokeWidth={1.5} />
+                <text x={px(live.current) + 10} y={py(live.current) + 4} fontSize={11} fontWeight="bold" fill="#c2410c">Now</text>
+              </g>
+            )}
+          </g>
+        )}
+        {/* Playback marker */}
+        {marker && drawable(marker) && (
+          <g clipPath={projection !== 'enu' ? 'url(#analemma-plot)' : undefined} opacity={marker.visible ? 1 : 0.5}>
+            {isLunar
+              ? <MoonPhaseMarker cx={px(marker)} cy={py(marker)} r={10} illumination={marker.moonIllumination!} waxing={marker.moonWaxing!} />
+              : <circle cx={px(marker)} cy={py(marker)} r={8} fill="#fbbf24" stroke="#b45309" strokeWidth={2} />}
+          </g>
+        )}
+        {marker && (
+          <text x={padding} y={24} fontSize={13} fontWeight="bold" fill="#b45309">
+            {`${marker.sol !== undefined ? `Sol ${marker.sol}` : formatDayMonth(marker.dateISO, true)}${marker.timeOfDay ? ` ${marker.timeOfDay}` : ''}`}
+            {` · Alt ${marker.altitudeDeg.toFixed(1)}° · Az ${marker.azimuthDeg.toFixed(1)}°`}
+          </text>
+        )}
       </svg>
     </div>
   );
@@ -375,20 +909,64 @@ export default function App() {
   const [locationQuery, setLocationQuery] = useState('');
   const [latitude, setLatitude] = useState(51.5);
   const [longitude, setLongitude] = useState(-0.13);
+  const [timeKind, setTimeKind] = useState<TimeMode['kind']>('fixedLocalTime');
   const [hh, setHh] = useState(12);
   const [mm, setMm] = useState(0);
+  // IANA zone for DST-aware clock time; null means a fixed offset all year
+  const [timeZone, setTimeZone] = useState<string | null>(() => browserTimeZone());
   const [tzOffsetHours, setTzOffsetHours] = useState(() => {
-    // Default to browser's time zone offset
-    return -new Date().getTimezoneOffset() / 60;
+    // Default to the browser zone's standard offset, else its current offset
+    const tz = browserTimeZone();
+    return tz ? standardOffsetMinutes(tz) / 60 : -new Date().getTimezoneOffset() / 60;
   });
+  // Where the current zone came from: the browser default, the coordinate lookup, or the user
+  const [timeZoneSource, setTimeZoneSource] = useState<'browser' | 'lookup' | 'manual'>('browser');
   const [locationLabel, setLocationLabel] = useState('London, GB');
   const [locationError, setLocationError] = useState<string | undefined>();
   const [latError, setLatError] = useState<string | undefined>();
   const [lonError, setLonError] = useState<string | undefined>();
   const [infoOpen, setInfoOpen] = useState(false);
+  const [ephemeris, setEphemeris] = useState<EphemerisModel>('noaa');
+  // 'earth' or a key of PLANETARY_BODIES
+  const [bodyId, setBodyId] = useState('earth');
+  const body: PlanetaryBody | undefined = PLANETARY_BODIES[bodyId];
+  const isEarth = body === undefined;
+  const [target, setTarget] = useState<'sun' | 'moon'>('sun');
+  const isLunar = isEarth && target === 'moon';
+  // Analemma family: one figure every familyIntervalMin around the clock, joined by day-arcs
+  const [familyEnabled, setFamilyEnabled] = useState(false);
+  const [familyIntervalMin, setFamilyIntervalMin] = useState(60);
+  const isFamily = familyEnabled && isEarth && !isLunar;
+  const [projection, setProjection] = useState<ChartProjection>('enu');
+  const [focalLengthMm, setFocalLengthMm] = useState(24);
+  const [sensorId, setSensorId] = useState(SENSOR_PRESETS[0].id);
+  // Playback: index into points of the animated marker (null hides it), advanced playbackSpeed times a second
+  const [playbackIndex, setPlaybackIndex] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState(30);
+  // Day hovered in either chart, and the day pinned by a click for the detail panel
+  const [hoveredDay, setHoveredDay] = useState<DaySelection | null>(null);
+  const [pinnedDay, setPinnedDay] = useState<DaySelection | null>(null);
+  // Live mode: the clock, re-read every second while enabled
+  const [liveEnabled, setLiveEnabled] = useState(false);
+  const [nowMs, setNowMs] = useState(() => Date.now());
+  const [refractionEnabled, setRefractionEnabled] = useState(false);
+  const [refractionModel, setRefractionModel] = useState<RefractionOptions['model']>('saemundsson');
+  const [pressureHPa, setPressureHPa] = useState(1010);
+  const [temperatureC, setTemperatureC] = useState(10);
+  const [observerElevationM, setObserverElevationM] = useState(0);
+  const [horizonProfile, setHorizonProfile] = useState<{ name: string; points: HorizonPoint[] } | null>(null);
+  const [horizonError, setHorizonError] = useState<string | undefined>();
   
-  // Get current year for EoT calculation
-  const currentYear = new Date().getFullYear();
+  // Year for the analemma and EoT calculation (astronomical numbering)
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  // Custom schedule: a date range every N days, optionally at several times of day
+  const [rangeEnabled, setRangeEnabled] = useState(false);
+  const [rangeStart, setRangeStart] = useState(() => `${new Date().getFullYear()}-01-01`);
+  const [rangeEnd, setRangeEnd] = useState(() => `${new Date().getFullYear()}-12-31`);
+  const [stepDays, setStepDays] = useState(7);
+  const [timesOfDayText, setTimesOfDayText] = useState('');
+  const timesOfDay = useMemo(() => parseTimesOfDay(timesOfDayText), [timesOfDayText]);
   const [isLoadingLocation, setIsLoadingLocation] = useState(true);
 
   // On initial load, try to get user's location via browser geolocation
@@ -404,9 +982,8 @@ export default function App() {
           setLatitude(lat);
           setLongitude(lon);
           
-          // Initialize a time zone offset estimate from longitude (user can override)
-          const tzOffset = getTimeZoneOffset(lat, lon);
-          setTzOffsetHours(tzOffset);
+          // Initialize the time zone from the coordinates (user can override)
+          applyTimeZoneForLocation(lat, lon);
           
           // Get location name
           const label = await reverseGeocode(lat, lon);
@@ -441,10 +1018,110 @@ export default function App() {
     }
   }, []); // Empty dependency array = run once on mount
 
-  const timeMode: TimeMode = { kind: 'fixedLocalTime', hh, mm };
-  const points = useAnalemma(latitude, longitude, timeMode, tzOffsetHours);
-  const eotPoints = useEquationOfTime(currentYear);
+  const timeMode = useMemo<TimeMode>(() => ({ kind: timeKind, hh, mm }), [timeKind, hh, mm]);
+  const sampling = useMemo<SamplingOptions | undefined>(() => {
+    if (!isEarth) return undefined;
+    const range = rangeEnabled ? { startDateISO: rangeStart, endDateISO: rangeEnd, stepDays } : undefined;
+    // The family replaces the times of day with one figure every familyIntervalMin
+    if (isFamily) {
+      const site = {
+        latitudeDeg: latitude,
+        longitudeDeg: longitude,
+        timeMode,
+        tzOffsetHours,
+        timeZone: timeZone ?? undefined,
+        year,
+        ephemeris,
+        refraction: refractionEnabled ? { model: refractionModel, pressureHPa, temperatureC } : undefined,
+        observerElevationM,
+      };
+      return analemmaFamilySampling(site, familyIntervalMin, range);
+    }
+    if (!range) return undefined;
+    return { ...range, timesOfDay: timesOfDay && timesOfDay.length > 0 ? timesOfDay : undefined };
+  }, [isEarth, rangeEnabled, rangeStart, rangeEnd, stepDays, timesOfDay, isFamily, familyIntervalMin, year,
+    latitude, longitude, timeMode, tzOffsetHours, timeZone, ephemeris, refractionEnabled, refractionModel, pressureHPa, temperatureC, observerElevationM]);
+  const analemmaInputs = useMemo<AnalemmaInputs>(() => ({
+    latitudeDeg: latitude,
+    longitudeDeg: longitude,
+    timeMode,
+    tzOffsetHours,
+    timeZone: timeZone ?? undefined,
+    year,
+    ephemeris,
+    refraction: refractionEnabled ? { model: refractionModel, pressureHPa, temperatureC } : undefined,
+    observerElevationM,
+    body,
+    sampling,
+    target,
+    horizonProfile: isEarth ? horizonProfile?.points : undefined,
+  }), [latitude, longitude, timeMode, tzOffsetHours, timeZone, ephemeris, year, refractionEnabled, refractionModel, pressureHPa, temperatureC, observerElevationM, body, sampling, target, isEarth, horizonProfile]);
+  const points = useAnalemma(analemmaInputs);
+  // A family has one figure per time of day, so there is no single path to follow
+  const canPlay = !isFamily && points.length > 0;
+  const playbackPoint = canPlay && playbackIndex !== null ? points[Math.min(playbackIndex, points.length - 1)] : undefined;
+  useEffect(() => {
+    if (!isPlaying || !canPlay) return;
+    const id = window.setInterval(() => {
+      setPlaybackIndex(i => (i === null || i + 1 >= points.length ? 0 : i + 1));
+    }, 1000 / playbackSpeed);
+    return () => window.clearInterval(id);
+  }, [isPlaying, canPlay, playbackSpeed, points.length]);
+  const dayArcs = useMemo(() => {
+    if (!isFamily) return undefined;
+    return seasonDates(year, analemmaInputs).map(d => ({ ...d, points: computeSunPath(analemmaInputs, d.dateISO) }));
+  }, [isFamily, year, analemmaInputs]);
+  // Season events of every year the samples span, for the Sun on Earth only
+  const seasonEvents = useMemo(() => {
+    if (!isEarth || isLunar || points.length === 0) return [];
+    const firstYear = parseDateISO(points[0].dateISO).year;
+    const lastYear = parseDateISO(points[points.length - 1].dateISO).year;
+    return Array.from({ length: lastYear - firstYear + 1 }, (_, i) => findSeasonEvents(firstYear + i, analemmaInputs)).flat();
+  }, [isEarth, isLunar, points, analemmaInputs]);
+  const eotPoints = useEquationOfTime(year, ephemeris, body);
+  const canGoLive = isEarth && !isLunar;
+  useEffect(() => {
+    if (!liveEnabled || !canGoLive) return;
+    setNowMs(Date.now());
+    const id = window.setInterval(() => setNowMs(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [liveEnabled, canGoLive]);
+  const live = useMemo(() => {
+    if (!liveEnabled || !canGoLive) return null;
+    return computeLiveSun(analemmaInputs, nowMs);
+  }, [liveEnabled, canGoLive, analemmaInputs, nowMs]);
+  // Rise/set times do not depend on the sampling time, so they are keyed on the site and year only
+  const sunTimes = useMemo<SunTimesDay[]>(() => {
+    if (!isEarth) return [];
+    return computeSunTimes({
+      latitudeDeg: latitude,
+      longitudeDeg: longitude,
+      tzOffsetHours,
+      timeZone: timeZone ?? undefined,
+      year,
+      ephemeris,
+      refraction: refractionEnabled ? { model: refractionModel, pressureHPa, temperatureC } : undefined,
+      observerElevationM,
+    });
+  }, [isEarth, latitude, longitude, tzOffsetHours, timeZone, year, ephemeris, refractionEnabled, refractionModel, pressureHPa, temperatureC, observerElevationM]);
   const vis = points.filter(p => p.visible);
+  // Horizon crossings per time of day; a family has too many figures to list
+  const horizonSummary = useMemo(() => {
+    if (isFamily || points.length === 0) return [];
+    const multiYear = parseDateISO(points[0].dateISO).year !== parseDateISO(points[points.length - 1].dateISO).year;
+    const crossings = findHorizonCrossings(points);
+    const series = Array.from(new Set(points.map(p => p.timeOfDay)));
+    return series.map(timeOfDay => {
+      const seriesPoints = points.filter(p => p.timeOfDay === timeOfDay);
+      const seriesCrossings = crossings.filter(c => c.point.timeOfDay === timeOfDay);
+      const text = seriesCrossings.length > 0
+        ? seriesCrossings.map(c => `${c.rising ? 'rises' : 'sets'} ${formatDayMonth(c.point.dateISO, multiYear)}`).join(', ')
+        : seriesPoints.every(p => p.visible) ? 'above the horizon on every date' : 'below the horizon on every date';
+      return { timeOfDay, text };
+    });
+  }, [isFamily, points]);
+  // Shape of the (first) figure, for comparing sites
+  const shape = useMemo(() => measureAnalemma(points), [points]);
   const azMin = vis.length ? Math.min(...vis.map(p => p.azimuthDeg)) : undefined;
   const azMax = vis.length ? Math.max(...vis.map(p => p.azimuthDeg)) : undefined;
   const altMinVis = vis.length ? Math.min(...vis.map(p => p.altitudeDeg)) : undefined;
@@ -495,6 +1172,21 @@ export default function App() {
     cameraAltitude = (altRad * 180) / Math.PI;
   }
 
+  // Rectilinear lens aimed at the camera angle, for the camera view
+  const sensor = SENSOR_PRESETS.find(sp => sp.id === sensorId) ?? SENSOR_PRESETS[0];
+  const camera: CameraModel | undefined = cameraAzimuth !== undefined && cameraAltitude !== undefined
+    ? { azimuthDeg: cameraAzimuth, altitudeDeg: cameraAltitude, focalLengthMm, sensorWidthMm: sensor.widthMm, sensorHeightMm: sensor.heightMm }
+    : undefined;
+
+  async function loadHorizonProfile(file: File) {
+    try {
+      setHorizonProfile({ name: file.name, points: parseHorizonProfile(await file.text()) });
+      setHorizonError(undefined);
+    } catch (err) {
+      setHorizonError(`${file.name}: ${(err as Error).message}`);
+    }
+  }
+
   // Convert azimuth to cardinal direction
   function azimuthToDirection(az: number): string {
     const normalized = ((az % 360) + 360) % 360;
@@ -564,47 +1256,18 @@ export default function App() {
     }
   }
 
-  // Estimate time zone offset from longitude with improved rounding.
-  // This is not a true political time zone lookup; users should override if needed.
-  // Most offsets are whole hours, some are half-hours (India, Iran, etc.)
-  function getTimeZoneOffset(lat: number, lon: number): number {
-    try {
-      // Calculate ideal offset from longitude (15° per hour)
-      const idealOffset = lon / 15;
-      
-      console.log(`Time zone calculation for lon=${lon}:`);
-      console.log(`  idealOffset = ${lon} / 15 = ${idealOffset}`);
-      
-      // Calculate distances to nearest whole hour and nearest half-hour
-      const wholeHour = Math.round(idealOffset);
-      const halfHour = Math.floor(idealOffset) + 0.5;
-      
-      const wholeHourDiff = Math.abs(idealOffset - wholeHour);
-      const halfHourDiff = Math.abs(idealOffset - halfHour);
-      
-      console.log(`  wholeHour = ${wholeHour}, distance = ${wholeHourDiff}`);
-      console.log(`  halfHour = ${halfHour}, distance = ${halfHourDiff}`);
-      
-      // Use whichever is closer, but require half-hour to be VERY close (within 6 minutes)
-      let result;
-      if (halfHourDiff < 0.1 && halfHourDiff < wholeHourDiff) {
-        // Very close to half-hour (within 6 minutes) AND closer than whole hour
-        // This catches India +5.5, Iran +3.5, Myanmar +6.5, etc.
-        result = halfHour;
-        console.log(`  Using half-hour offset: ${result}`);
-      } else {
-        // Use whole hour (most common case)
-        result = wholeHour;
-        console.log(`  Using whole-hour offset: ${result}`);
-      }
-      
-      // Clamp to valid range [-12, +14]
-      return Math.max(-12, Math.min(14, result));
-      
-    } catch (error) {
-      console.error('Time zone lookup error:', error);
-      // Final fallback to browser's time zone
-      return -new Date().getTimezoneOffset() / 60;
+  // Resolve the IANA zone for the coordinates from the bundled boundary data.
+  // Falls back to a fixed offset from longitude (15° per hour) if the lookup fails.
+  function applyTimeZoneForLocation(lat: number, lon: number) {
+    const found = lookupTimeZone(lat, lon);
+    if (found) {
+      setTimeZone(found.timeZone);
+      setTzOffsetHours(found.standardOffsetHours);
+      setTimeZoneSource('lookup');
+    } else {
+      setTimeZone(null);
+      setTzOffsetHours(clamp(Math.round(lon / 15), -12, 14));
+      setTimeZoneSource('manual');
     }
   }
 
@@ -620,9 +1283,8 @@ export default function App() {
       setLongitude(clamp(res.lon, -180, 180));
       setLocationLabel(res.label);
       
-      // Automatically get and set the accurate time zone offset
-      const tzOffset = getTimeZoneOffset(res.lat, res.lon);
-      setTzOffsetHours(tzOffset);
+      // Automatically look up the time zone for the new coordinates
+      applyTimeZoneForLocation(res.lat, res.lon);
     } else {
       setLocationError('No match found, try a clearer query.');
     }
@@ -650,6 +1312,16 @@ export default function App() {
     }
   }
 
+  function onTimeZoneChange(value: string) {
+    setTimeZoneSource('manual');
+    if (!value) {
+      setTimeZone(null);
+      return;
+    }
+    setTimeZone(value);
+    setTzOffsetHours(standardOffsetMinutes(value) / 60);
+  }
+
   // Export data as CSV
   function exportAsCSV() {
     const timestamp = new Date().toISOString().split('T')[0];
@@ -660,8 +1332,24 @@ export default function App() {
     csv += `# Location: ${locationLabel}\n`;
     csv += `# Latitude: ${latitude.toFixed(6)}°\n`;
     csv += `# Longitude: ${longitude.toFixed(6)}°\n`;
-    csv += `# Time: ${String(hh).padStart(2, '0')}:${String(mm).padStart(2, '0')} (Standard Time, no DST)\n`;
+    csv += `# Time: ${String(hh).padStart(2, '0')}:${String(mm).padStart(2, '0')} (${TIME_MODE_LABELS[timeKind]})\n`;
     csv += `# Time Zone Offset: UTC${tzOffsetHours >= 0 ? '+' : ''}${tzOffsetHours}\n`;
+    if (timeZone) {
+      csv += `# Time Zone: ${timeZone} (DST applied)\n`;
+    }
+    csv += `# Body: ${body ? body.name : 'Earth'}\n`;
+    if (isLunar) {
+      csv += `# Target: Moon, sampled every lunar day (${(LUNAR_DAY_DAYS * 24).toFixed(3)} h)\n`;
+    }
+    csv += sampling
+      ? `# Dates: ${sampling.startDateISO} to ${sampling.endDateISO}, every ${sampling.stepDays} day(s)${sampling.timesOfDay && !isLunar ? ` at ${timesOfDayText.trim()}` : ''}\n`
+      : `# Year: ${year}\n`;
+    csv += `# Solar Model: ${ephemeris}\n`;
+    csv += `# Refraction: ${refractionEnabled ? `${refractionModel} (${pressureHPa} hPa, ${temperatureC} °C)` : 'none (geometric altitude)'}\n`;
+    csv += `# Observer Elevation: ${observerElevationM} m\n`;
+    if (analemmaInputs.horizonProfile) {
+      csv += `# Horizon Profile: ${horizonProfile!.name} (${analemmaInputs.horizonProfile.length} points)\n`;
+    }
     if (cameraAzimuth !== undefined && cameraAltitude !== undefined) {
       csv += `# Camera Angle: ${azimuthToDirection(cameraAzimuth)} (${cameraAzimuth.toFixed(1)}°), ${cameraAltitude.toFixed(1)}° elevation\n`;
     }
@@ -669,10 +1357,18 @@ export default function App() {
     csv += `# Visible Points: ${vis.length}\n`;
     csv += `# Generated: ${new Date().toISOString()}\n`;
     csv += '\n';
-    csv += 'Date,Azimuth (°),Altitude (°),Visible\n';
+    // The Moon is sampled once per lunar day and ignores times of day, so the column follows the points
+    const hasTimeOfDay = points.some(p => p.timeOfDay !== undefined);
+    csv += body
+      ? 'Date,UTC Time,Sol,Ls (°),Azimuth (°),Altitude (°),Visible\n'
+      : `Date,${hasTimeOfDay ? 'Time,' : ''}UTC Time,Azimuth (°),Altitude (°),Visible${analemmaInputs.horizonProfile ? ',Obstructed' : ''}${isLunar ? ',Illuminated (%),Waxing' : ''}\n`;
     
     points.forEach(p => {
-      csv += `${p.dateISO},${p.azimuthDeg.toFixed(4)},${p.altitudeDeg.toFixed(4)},${p.visible}\n`;
+      const timeCols = `${hasTimeOfDay ? `${p.timeOfDay ?? ''},` : ''}${formatTimestamp(p.timestampMs)},`;
+      const solCols = body ? `${p.sol},${p.solarLongitudeDeg!.toFixed(4)},` : '';
+      const moonCols = p.moonIllumination !== undefined ? `,${(p.moonIllumination * 100).toFixed(1)},${p.moonWaxing}` : '';
+      const obstructedCol = p.obstructed !== undefined ? `,${p.obstructed}` : '';
+      csv += `${p.dateISO},${timeCols}${solCols}${p.azimuthDeg.toFixed(4)},${p.altitudeDeg.toFixed(4)},${p.visible}${obstructedCol}${moonCols}\n`;
     });
     
     // Trigger download
@@ -695,9 +1391,19 @@ export default function App() {
         latitude: latitude,
         longitude: longitude,
         time: `${String(hh).padStart(2, '0')}:${String(mm).padStart(2, '0')}`,
-        timeNote: 'Standard Time (no DST)',
+        timeMode: timeKind,
+        timeNote: TIME_MODE_LABELS[timeKind],
         timeZoneOffset: tzOffsetHours,
         timeZoneOffsetString: `UTC${tzOffsetHours >= 0 ? '+' : ''}${tzOffsetHours}`,
+        timeZone,
+        body: body ? body.name : 'Earth',
+        target: isLunar ? 'moon' : 'sun',
+        year,
+        sampling: sampling ?? null,
+        ephemeris,
+        refraction: refractionEnabled ? { model: refractionModel, pressureHPa, temperatureC } : null,
+        observerElevationM,
+        horizonProfile: analemmaInputs.horizonProfile ? { name: horizonProfile!.name, points: analemmaInputs.horizonProfile } : null,
         cameraAngle: cameraAzimuth !== undefined && cameraAltitude !== undefined ? {
           azimuth: cameraAzimuth,
           azimuthDirection: azimuthToDirection(cameraAzimuth),
@@ -713,9 +1419,14 @@ export default function App() {
       },
       points: points.map(p => ({
         date: p.dateISO,
+        ...(p.timeOfDay !== undefined ? { time: p.timeOfDay } : {}),
+        timestamp: formatTimestamp(p.timestampMs),
+        ...(body ? { sol: p.sol, solarLongitude: p.solarLongitudeDeg } : {}),
         azimuth: p.azimuthDeg,
         altitude: p.altitudeDeg,
-        visible: p.visible
+        visible: p.visible,
+        ...(p.obstructed !== undefined ? { obstructed: p.obstructed } : {}),
+        ...(p.moonIllumination !== undefined ? { moonIllumination: p.moonIllumination, moonWaxing: p.moonWaxing } : {})
       }))
     };
     
@@ -804,9 +1515,47 @@ export default function App() {
           </div>
 
           <div className="field">
-            <label>Standard Time (no DST)</label>
+            <label htmlFor="body">Observed from</label>
+            <select id="body" value={bodyId} onChange={(e) => setBodyId(e.target.value)}>
+              <option value="earth">Earth</option>
+              {Object.entries(PLANETARY_BODIES).map(([id, b]) => (
+                <option key={id} value={id}>{b.name}</option>
+              ))}
+            </select>
+            {body && (
+              <span style={{ fontSize: '0.85em', color: '#666' }}>
+                One point per sol ({solarDayHours(body).toFixed(3)} h); times are local mean solar time in sol hours. Time zones and refraction do not apply.
+              </span>
+            )}
+          </div>
+
+          <div className="field">
+            <label htmlFor="target">Object</label>
+            <select id="target" value={target} disabled={!isEarth} onChange={(e) => setTarget(e.target.value as 'sun' | 'moon')}>
+              <option value="sun">Sun</option>
+              <option value="moon">Moon (lunar analemma)</option>
+            </select>
+            {isLunar && (
+              <span style={{ fontSize: '0.85em', color: '#666' }}>
+                Starts at the fixed time on the first date and repeats every lunar day (about 24 h 50 min), over one lunation or the custom date range. Markers show the phase.
+              </span>
+            )}
+          </div>
+
+          <div className="field">
+            <label htmlFor="timeKind">Time reference</label>
+            <select
+              id="timeKind"
+              value={timeKind}
+              onChange={(e) => setTimeKind(e.target.value as TimeMode['kind'])}
+              style={{ marginBottom: 8 }}
+            >
+              {(Object.keys(TIME_MODE_LABELS) as TimeMode['kind'][]).map(kind => (
+                <option key={kind} value={kind}>{TIME_MODE_LABELS[kind]}</option>
+              ))}
+            </select>
             <div className="row">
-              <label style={{ fontWeight: 500 }}>Fixed local time (HH:MM)</label>
+              <label style={{ fontWeight: 500 }}>Fixed time each day (HH:MM)</label>
               <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
                 <input
                   aria-label="Hours"
@@ -829,10 +1578,60 @@ export default function App() {
                 />
               </div>
             </div>
+            <div className="row" style={{ marginTop: 8 }}>
+              <label className="radio" style={{ fontWeight: 500 }}>
+                <input
+                  type="checkbox"
+                  checked={familyEnabled}
+                  disabled={!isEarth || isLunar}
+                  onChange={(e) => setFamilyEnabled(e.target.checked)}
+                />
+                Analemma for every
+              </label>
+              <select
+                aria-label="Family interval"
+                value={familyIntervalMin}
+                disabled={!isFamily}
+                onChange={(e) => setFamilyIntervalMin(Number(e.target.value))}
+                style={{ width: 'auto' }}
+              >
+                {[15, 20, 30, 60, 120].map(m => (
+                  <option key={m} value={m}>{m < 60 ? `${m} min` : `${m / 60} h`}</option>
+                ))}
+              </select>
+            </div>
+            {isFamily && sampling && sampling.stepDays! > (rangeEnabled ? stepDays : 1) && (
+              <span style={{ fontSize: '0.85em', color: '#666' }}>
+                Sampled every {sampling.stepDays} days to stay within {MAX_SAMPLES} points.
+              </span>
+            )}
           </div>
 
           <div className="field">
-            <label htmlFor="tzOffset">Time zone offset (UTC±H)</label>
+            <label htmlFor="timeZone">Time zone</label>
+            <select
+              id="timeZone"
+              value={timeZone ?? ''}
+              disabled={!isEarth || timeKind !== 'fixedLocalTime'}
+              onChange={(e) => onTimeZoneChange(e.target.value)}
+            >
+              <option value="">Fixed offset (no DST)</option>
+              {timeZone && !TIME_ZONE_OPTIONS.some(tz => tz.name === timeZone) && (
+                <option value={timeZone}>{`${timeZone} (${formatUtcOffset(tzOffsetHours)})`}</option>
+              )}
+              {TIME_ZONE_OPTIONS.map(tz => (
+                <option key={tz.name} value={tz.name}>{tz.label}</option>
+              ))}
+            </select>
+            {timeZone && timeZoneSource !== 'manual' && (
+              <div style={{ marginTop: 6, fontSize: '0.85em', color: '#666' }}>
+                {timeZoneSource === 'lookup' ? 'From coordinates' : 'From browser'}: {timeZone} ({formatUtcOffset(tzOffsetHours)} standard)
+              </div>
+            )}
+          </div>
+
+          <div className="field">
+            <label htmlFor="tzOffset">{timeZone ? 'Standard offset (UTC±H)' : 'Time zone offset (UTC±H)'}</label>
             <div className="row">
               <input
                 id="tzOffset"
@@ -841,15 +1640,233 @@ export default function App() {
                 min="-12"
                 max="14"
                 value={tzOffsetHours}
+                disabled={!isEarth || timeKind !== 'fixedLocalTime' || timeZone !== null}
                 onChange={(e) => setTzOffsetHours(parseFloat(e.target.value) || 0)}
                 style={{ width: '80px' }}
               />
               <span style={{ fontSize: '0.85em', color: '#666', marginLeft: '8px' }}>
-                (initial estimate; adjust if needed)
+                {timeKind !== 'fixedLocalTime'
+                  ? '(not used by this time reference)'
+                  : timeZone
+                    ? `(DST applied per day from ${timeZone})`
+                    : '(initial estimate; adjust if needed)'}
               </span>
             </div>
           </div>
 
+          <div className="field">
+            <label>Solar model</label>
+            <div className="row">
+              <label className="radio" style={{ fontWeight: 500 }}>
+                <input
+                  type="radio"
+                  name="ephemeris"
+                  checked={ephemeris === 'noaa'}
+                  disabled={!isEarth}
+                  onChange={() => setEphemeris('noaa')}
+                />
+                NOAA approximation
+              </label>
+              <label className="radio" style={{ fontWeight: 500 }}>
+                <input
+                  type="radio"
+                  name="ephemeris"
+                  checked={ephemeris === 'meeus'}
+                  disabled={!isEarth}
+                  onChange={() => setEphemeris('meeus')}
+                />
+                High precision (Meeus)
+              </label>
+              <label className="radio" style={{ fontWeight: 500 }}>
+                <input
+                  type="radio"
+                  name="ephemeris"
+                  checked={ephemeris === 'secular'}
+                  disabled={!isEarth}
+                  onChange={() => setEphemeris('secular')}
+                />
+                Secular drift (deep time)
+              </label>
+            </div>
+          </div>
+
+          <div className="field">
+            <label htmlFor="year">Year</label>
+            <input
+              id="year"
+              type="number"
+              step="1"
+              min={SECULAR_YEAR_RANGE[0]}
+              max={SECULAR_YEAR_RANGE[1]}
+              value={year}
+              onChange={(e) => {
+                const n = Math.round(Number(e.target.value));
+                if (Number.isFinite(n)) setYear(clamp(n, SECULAR_YEAR_RANGE[0], SECULAR_YEAR_RANGE[1]));
+              }}
+            />
+            <span style={{ fontSize: '0.85em', color: '#666' }}>
+              {year <= 0 ? `${1 - year} BC (astronomical year ${year})` : 'Astronomical numbering: 0 = 1 BC, −2999 = 3000 BC'}
+            </span>
+            {isEarth && ephemeris !== 'secular' && Math.abs(year - 2000) > 500 && (
+              <div className="hint error">
+                This model uses present-day orbital coefficients; choose “Secular drift” for distant years.
+              </div>
+            )}
+          </div>
+
+          <div className="field">
+            <label className="radio" style={{ fontWeight: 500 }}>
+              <input
+                type="checkbox"
+                checked={rangeEnabled}
+                disabled={!isEarth}
+                onChange={(e) => setRangeEnabled(e.target.checked)}
+              />
+              Custom date range and times
+            </label>
+            {rangeEnabled && isEarth && (
+              <>
+                <div className="row two-cols" style={{ marginTop: 8 }}>
+                  <div>
+                    <label htmlFor="rangeStart" style={{ fontWeight: 500 }}>From</label>
+                    <input id="rangeStart" type="date" value={rangeStart} onChange={(e) => e.target.value && setRangeStart(e.target.value)} />
+                  </div>
+                  <div>
+                    <label htmlFor="rangeEnd" style={{ fontWeight: 500 }}>To</label>
+                    <input id="rangeEnd" type="date" value={rangeEnd} onChange={(e) => e.target.value && setRangeEnd(e.target.value)} />
+                  </div>
+                </div>
+                <div className="row two-cols" style={{ marginTop: 8 }}>
+                  <div>
+                    <label htmlFor="stepDays" style={{ fontWeight: 500 }}>Every (days)</label>
+                    <input
+                      id="stepDays"
+                      type="number"
+                      step="1"
+                      min={1}
+                      max={365}
+                      value={stepDays}
+                      disabled={isLunar}
+                      onChange={(e) => setStepDays(clamp(Math.round(Number(e.target.value)) || 1, 1, 365))}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="timesOfDay" style={{ fontWeight: 500 }}>Times of day</label>
+                    <input
+                      id="timesOfDay"
+                      type="text"
+                      value={timesOfDayText}
+                      disabled={isLunar || isFamily}
+                      placeholder={`${String(hh).padStart(2, '0')}:${String(mm).padStart(2, '0')}`}
+                      onChange={(e) => setTimesOfDayText(e.target.value)}
+                    />
+                  </div>
+                </div>
+                {timesOfDay === null && <div className="hint error">Use HH:MM, separated by commas (e.g. 09:00, 12:00, 15:00)</div>}
+                {rangeStart > rangeEnd && <div className="hint error">The start date is after the end date.</div>}
+                {points.length >= MAX_SAMPLES && <div className="hint error">Limited to the first {MAX_SAMPLES} samples.</div>}
+                <span style={{ fontSize: '0.85em', color: '#666' }}>
+                  {points.length} samples; leave times empty to use the fixed time above. The EoT chart still shows the selected year.
+                </span>
+              </>
+            )}
+          </div>
+
+          <div className="field">
+            <label>Atmosphere and horizon</label>
+            <div className="row">
+              <label className="radio" style={{ fontWeight: 500 }}>
+                <input
+                  type="checkbox"
+                  checked={refractionEnabled}
+                  disabled={!isEarth}
+                  onChange={(e) => setRefractionEnabled(e.target.checked)}
+                />
+                Atmospheric refraction
+              </label>
+              <select
+                aria-label="Refraction model"
+                value={refractionModel}
+                disabled={!refractionEnabled}
+                onChange={(e) => setRefractionModel(e.target.value as RefractionOptions['model'])}
+                style={{ width: 'auto', marginLeft: 'auto' }}
+              >
+                <option value="saemundsson">Sæmundsson</option>
+                <option value="bennett">Bennett</option>
+              </select>
+            </div>
+            <div className="row two-cols" style={{ marginTop: 8 }}>
+              <div>
+                <label htmlFor="pressure" style={{ fontWeight: 500 }}>Pressure (hPa)</label>
+                <input
+                  id="pressure"
+                  type="number"
+                  step="1"
+                  min={500}
+                  max={1100}
+                  value={pressureHPa}
+                  disabled={!refractionEnabled}
+                  onChange={(e) => setPressureHPa(clamp(Number(e.target.value) || 1010, 500, 1100))}
+                />
+              </div>
+              <div>
+                <label htmlFor="temperature" style={{ fontWeight: 500 }}>Temperature (°C)</label>
+                <input
+                  id="temperature"
+                  type="number"
+                  step="1"
+                  min={-50}
+                  max={50}
+                  value={temperatureC}
+                  disabled={!refractionEnabled}
+                  onChange={(e) => setTemperatureC(clamp(Number(e.target.value), -50, 50))}
+                />
+              </div>
+            </div>
+            <div style={{ marginTop: 8 }}>
+              <label htmlFor="elevation" style={{ fontWeight: 500 }}>Observer elevation (m)</label>
+              <input
+                id="elevation"
+                type="number"
+                step="1"
+                min={0}
+                max={9000}
+                value={observerElevationM}
+                onChange={(e) => setObserverElevationM(clamp(Number(e.target.value) || 0, 0, 9000))}
+              />
+              <span style={{ fontSize: '0.85em', color: '#666' }}>
+                Height above the visible horizon; lowers it by the dip angle
+              </span>
+            </div>
+            <div style={{ marginTop: 8 }}>
+              <label htmlFor="horizon-profile" style={{ fontWeight: 500 }}>Horizon profile</label>
+              <div className="row">
+                <input
+                  id="horizon-profile"
+                  type="file"
+                  accept=".csv,.txt,text/csv,text/plain"
+                  disabled={!isEarth}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) loadHorizonProfile(file);
+                    e.target.value = '';
+                  }}
+                />
+                {horizonProfile && (
+                  <button onClick={() => setHorizonProfile(null)} style={{ marginLeft: 'auto' }}>
+                    Clear
+                  </button>
+                )}
+              </div>
+              <span style={{ fontSize: '0.85em', color: '#666' }}>
+                {horizonProfile
+                  ? `${horizonProfile.name}: ${horizonProfile.points.length} points`
+                  : 'Azimuth/altitude pairs in degrees, one per line (CSV or PeakFinder export)'}
+              </span>
+              {horizonError && <div className="hint error">{horizonError}</div>}
+            </div>
+          </div>
+
           <div className="field">
             <label>Location:</label>
             <div className="row">
@@ -871,26 +1888,253 @@ export default function App() {
 
         <section className="chart" aria-label="Analemma output">
           <div style={{ maxWidth: 980, margin: '0 auto', width: '100%' }}>
-            <AnalemmaChartSVG points={points} label={locationLabel} />
-            <div style={{ marginTop: 8, fontSize: 12, color: '#666' }}>
-              <strong>Debug</strong>: visible={vis.length} {azMin !== undefined ? `| Az ${azMin.toFixed(1)}°…${azMax!.toFixed(1)}°` : ''} {altMinVis !== undefined ? `| Alt ${altMinVis.toFixed(1)}°…${altMaxVis!.toFixed(1)}°` : ''}
-              {cameraAzimuth !== undefined && cameraAltitude !== undefined && (
-                <span style={{ marginLeft: 16 }}>
-                  <strong>Camera Angle</strong>: {azimuthToDirection(cameraAzimuth)} ({cameraAzimuth.toFixed(1)}°), {cameraAltitude.toFixed(1)}° elevation
-                </span>
+            <div role="radiogroup" aria-label="Chart projection" style={{ display: 'flex', gap: '12px', marginBottom: 8, fontSize: 13 }}>
+              {(Object.keys(PROJECTION_LABELS) as ChartProjection[]).map(key => (
+                <label key={key} className="radio">
+                  <input type="radio" name="projection" checked={projection === key} onChange={() => setProjection(key)} />
+                  {PROJECTION_LABELS[key]}
+                </label>
+              ))}
+              {projection === 'camera' && (
+                <>
+                  <label style={{ display: 'inline-flex', alignItems: 'center', gap: '4px' }}>
+                    Focal length (mm)
+                    <input
+                      type="number"
+                      min={4}
+                      max={600}
+                      value={focalLengthMm}
+                      onChange={(e) => setFocalLengthMm(clamp(Number(e.target.value) || 4, 4, 600))}
+                      style={{ width: 64 }}
+                    />
+                  </label>
+                  <select aria-label="Sensor size" value={sensorId} onChange={(e) => setSensorId(e.target.value)} style={{ width: 'auto' }}>
+                    {SENSOR_PRESETS.map(sensor => (
+                      <option key={sensor.id} value={sensor.id}>{sensor.label}</option>
+                    ))}
+                  </select>
+                </>
               )}
             </div>
+            <AnalemmaChartSVG points={points} label={locationLabel} dayArcs={dayArcs} projection={projection} camera={camera} horizonProfile={analemmaInputs.horizonProfile}
+              seasonEvents={seasonEvents}
+              marker={playbackPoint}
+              highlight={hoveredDay ?? pinnedDay}
+              live={live ?? undefined}
+              onHoverDay={setHoveredDay}
+              onSelectDay={setPinnedDay}
+            />
+            <div className="row" style={{ marginTop: 8, gap: '8px', alignItems: 'center', fontSize: 13 }}>
+              <button
+                onClick={() => {
+                  if (playbackIndex === null) setPlaybackIndex(0);
+                  setIsPlaying(!isPlaying);
+                }}
+                disabled={!canPlay}
+                style={{ minWidth: 64 }}
+              >
+                {isPlaying && canPlay ? 'Pause' : 'Play'}
+              </button>
+              <input
+                type="range"
+                aria-label="Playback position"
+                min={0}
+                max={Math.max(0, points.length - 1)}
+                value={playbackPoint ? Math.min(playbackIndex!, points.length - 1) : 0}
+                disabled={!canPlay}
+                onChange={(e) => setPlaybackIndex(Number(e.target.value))}
+                style={{ flex: 1 }}
+              />
+              <select
+                aria-label="Playback speed"
+                value={playbackSpeed}
+                disabled={!canPlay}
+                onChange={(e) => setPlaybackSpeed(Number(e.target.value))}
+                style={{ width: 'auto' }}
+              >
+                {[5, 10, 30, 60, 120].map(v => (
+                  <option key={v} value={v}>{v} points/s</option>
+                ))}
+              </select>
+              <button
+                onClick={() => {
+                  setIsPlaying(false);
+                  setPlaybackIndex(null);
+                }}
+                disabled={!playbackPoint}
+              >
+                Stop
+              </button>
+            </div>
+            <div className="row" style={{ marginTop: 8, gap: '16px', alignItems: 'center', flexWrap: 'wrap', fontSize: 13 }}>
+              <label className="radio" style={{ fontWeight: 500 }}>
+                <input type="checkbox" checked={liveEnabled} disabled={!canGoLive} onChange={(e) => setLiveEnabled(e.target.checked)} />
+                Live
+              </label>
+              {live && (() => {
+                const configuredTime = `${String(hh).padStart(2, '0')}:${String(mm).padStart(2, '0')}`;
+                const { current, today, next } = live;
+                const dAlt = today ? current.altitudeDeg - today.altitudeDeg : 0;
+                const dAz = today ? ((current.azimuthDeg - today.azimuthDeg + 540) % 360) - 180 : 0;
+                return (
+                  <>
+                    <span>
+                      <strong>Now {formatClockAt(nowMs, timeZone, tzOffsetHours)}</strong>: Sun at {current.altitudeDeg.toFixed(1)}°, az {current.azimuthDeg.toFixed(1)}°
+                      {!current.visible && ' (below the horizon)'}
+                    </span>
+                    {today && (
+                      <span>
+                        Today at {configuredTime}: {today.altitudeDeg.toFixed(1)}°, az {today.azimuthDeg.toFixed(1)}°
+                        {` — the Sun is now ${Math.abs(dAlt).toFixed(1)}° ${dAlt >= 0 ? 'higher' : 'lower'} and ${Math.abs(dAz).toFixed(1)}° ${dAz >= 0 ? 'further west' : 'further east'}`}
+                      </span>
+                    )}
+                    {next?.timestampMs !== undefined && (
+                      <span>
+                        Next {configuredTime} ({TIME_MODE_LABELS[timeKind]}) in <strong>{formatCountdown(next.timestampMs - nowMs)}</strong>
+                      </span>
+                    )}
+                  </>
+                );
+              })()}
+            </div>
+            {shape && (() => {
+              // Sol numbers on other bodies; their crossing dates carry the year, as a body year spans several Earth years
+              const when = (p: AnalemmaPoint) => (p.sol !== undefined ? `sol ${p.sol}` : formatDayMonth(p.dateISO, false));
+              const stats: Array<[string, string]> = [
+                ['Size', `${shape.heightDeg.toFixed(1)}° × ${shape.widthDeg.toFixed(1)}° (along × across the axis)`],
+                ['Axis tilt', `${shape.axisTiltDeg >= 0 ? '+' : ''}${shape.axisTiltDeg.toFixed(1)}° from vertical`],
+                // Lobes and the crossing need one full year of the Sun; a partial range or the Moon leaves the figure open
+                ['Lobes', shape.largeLobeAreaSqDeg === null || shape.smallLobeAreaSqDeg === null
+                  ? 'n/a (not one full year)'
+                  : shape.lobeAreaRatio !== null
+                    ? `${shape.largeLobeAreaSqDeg.toFixed(1)} and ${shape.smallLobeAreaSqDeg.toFixed(1)} deg² (${shape.lobeAreaRatio.toFixed(2)} : 1)`
+                    : `single loop, ${shape.largeLobeAreaSqDeg.toFixed(1)} deg²`],
+                ['Crossing', !shape.closedLoop
+                  ? 'n/a (not one full year)'
+                  : shape.intersection
+                    ? `alt ${shape.intersection.altitudeDeg.toFixed(1)}°, az ${shape.intersection.azimuthDeg.toFixed(1)}° on ${shape.intersection.dates.map(d => formatDayMonth(d, body !== undefined)).join(' and ')}`
+                    : 'none'],
+                ['Highest', `${shape.highest.altitudeDeg.toFixed(1)}° on ${when(shape.highest)}`],
+                ['Lowest', `${shape.lowest.altitudeDeg.toFixed(1)}° on ${when(shape.lowest)}`],
+                ['Azimuth', `${shape.minAzimuth.azimuthDeg.toFixed(1)}° on ${when(shape.minAzimuth)} to ${shape.maxAzimuth.azimuthDeg.toFixed(1)}° on ${when(shape.maxAzimuth)}`],
+                ['Above horizon', `${vis.length} of ${points.length} samples`],
+              ];
+              if (cameraAzimuth !== undefined && cameraAltitude !== undefined) {
+                stats.push(['Camera angle', `${azimuthToDirection(cameraAzimuth)} (${cameraAzimuth.toFixed(1)}°), ${cameraAltitude.toFixed(1)}° elevation`]);
+              }
+              return (
+                <div style={{ marginTop: 8, padding: '8px 12px', border: '1px solid #ddd', borderRadius: 4, fontSize: 12, color: '#333' }}>
+                  <strong>Figure shape</strong>
+                  {points.some(p => p.timeOfDay !== points[0].timeOfDay) && <span style={{ color: '#666' }}> (first time of day)</span>}
+                  <div style={{ marginTop: 4, display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(260px, 1fr))', gap: '2px 16px' }}>
+                    {stats.map(([name, value]) => (
+                      <span key={name}>
+                        <span style={{ color: '#666' }}>{name}:</span> {value}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              );
+            })()}
+            {pinnedDay && (() => {
+              const dayPoints = points.filter(p => isSameDay(p, pinnedDay));
+              const eotPoint = eotPoints.find(e => isSameDay(body ? { dateISO: e.dateISO, sol: e.dayOfYear - 1 } : e, pinnedDay));
+              const signed = (v: number, digits: number) => `${v >= 0 ? '+' : ''}${v.toFixed(digits)}`;
+              const cell = { padding: '2px 10px 2px 0', textAlign: 'right' as const };
+              return (
+                <div style={{ marginTop: 8, padding: '8px 12px', border: '1px solid #ddd', borderRadius: 4, fontSize: 12, color: '#333' }}>
+                  <div className="row" style={{ alignItems: 'center' }}>
+                    <strong>
+                      {pinnedDay.sol !== undefined ? `Sol ${pinnedDay.sol} (${pinnedDay.dateISO})` : formatDayMonth(pinnedDay.dateISO, true)}
+                    </strong>
+                    {eotPoint && <span style={{ marginLeft: 16 }}>EoT at noon {signed(eotPoint.eotMinutes, 2)} min</span>}
+                    <button onClick={() => setPinnedDay(null)} style={{ marginLeft: 'auto' }}>Unpin</button>
+                  </div>
+                  {dayPoints.length > 0 ? (
+                    <table style={{ marginTop: 4, borderCollapse: 'collapse' }}>
+                      <thead>
+                        <tr style={{ color: '#666' }}>
+                          {['Time', 'Altitude', 'Azimuth', 'Hour angle', 'Declination', 'EoT'].map(h => (
+                            <th key={h} style={cell}>{h}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {dayPoints.map((p, i) => (
+                          <tr key={i}>
+                            <td style={cell}>{isLunar ? `${formatUtcTime(p.timestampMs)} UT` : p.timeOfDay ?? `${String(hh).padStart(2, '0')}:${String(mm).padStart(2, '0')}`}</td>
+                            <td style={cell}>{p.altitudeDeg.toFixed(2)}°</td>
+                            <td style={cell}>{p.azimuthDeg.toFixed(2)}°</td>
+                            <td style={cell}>{signed(p.hourAngleDeg, 2)}°</td>
+                            <td style={cell}>{signed(p.declinationDeg, 2)}°</td>
+                            <td style={cell}>{p.eotMinutes !== undefined ? `${signed(p.eotMinutes, 2)} min` : '—'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <div style={{ marginTop: 4, color: '#666' }}>No samples on this day with the current sampling.</div>
+                  )}
+                </div>
+              );
+            })()}
+            {horizonSummary.length > 0 && (
+              <div style={{ marginTop: 4, fontSize: 12, color: '#666' }}>
+                <strong>Horizon</strong>:{' '}
+                {horizonSummary.map(({ timeOfDay, text }) => (
+                  <span key={timeOfDay ?? ''} style={{ marginRight: 16 }}>
+                    {isLunar
+                      ? `the Moon ${text}`
+                      : `at ${timeOfDay ?? `${String(hh).padStart(2, '0')}:${String(mm).padStart(2, '0')}`} the Sun ${text}`}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
           
           <div style={{ marginTop: 24 }}>
             <EquationOfTimeChart 
-              points={eotPoints} 
+              points={eotPoints}
+              year={year}
               latitude={latitude}
               longitude={longitude}
               timeMode={timeMode}
               tzOffsetHours={tzOffsetHours}
+              timeZone={timeZone}
+              body={body}
+              cursor={playbackPoint}
+              highlight={hoveredDay ?? pinnedDay}
+              today={live?.today}
+              onHoverDay={setHoveredDay}
+              onSelectDay={setPinnedDay}
             />
           </div>
+
+          {isEarth && (
+            <div style={{ marginTop: 24 }}>
+              <DaylightChart days={sunTimes} timeZone={timeZone} tzOffsetHours={tzOffsetHours} />
+            </div>
+          )}
+
+          {isEarth && (
+            <div style={{ marginTop: 24 }}>
+              <SunPathChart inputs={analemmaInputs} analemma={isLunar ? [] : points} />
+            </div>
+          )}
+
+          {isEarth && (
+            <div style={{ marginTop: 24 }}>
+              <AnalemmaHeatmap
+                year={year}
+                ephemeris={ephemeris}
+                timeMode={timeMode}
+                latitude={latitude}
+                longitude={longitude}
+                tzOffsetHours={tzOffsetHours}
+                timeZone={timeZone ?? undefined}
+              />
+            </div>
+          )}
         </section>
       </main>
 
@@ -904,14 +2148,14 @@ export default function App() {
           <h3>Conventions used</h3>
           <ul>
             <li>Azimuth: 0° = North, increasing clockwise (E=90°, S=180°, W=270°).</li>
-            <li>Altitude: degrees above the local horizon. Points with altitude ≤ 0° are not shown.</li>
-            <li>Time: Solar time only (v1). Solar noon is when the Sun crosses the local meridian.</li>
+            <li>Altitude: degrees above the local horizon, optionally corrected for refraction. The part of the curve below the horizon (lowered by the dip angle for elevated observers) is drawn dashed under the horizon line, and the dates the figure crosses it are listed under the chart.</li>
+            <li>Time: civil clock time, local mean solar time, UTC or apparent solar time. At a fixed apparent solar time the figure collapses to a line.</li>
           </ul>
           <h3>How it’s calculated (high-level)</h3>
           <ul>
             <li>Compute solar declination and use a fixed hour angle from solar time.</li>
             <li>Convert to altitude/azimuth for your latitude.</li>
-            <li>Repeat for each day of the current year; plot visible points.</li>
+            <li>Repeat for each day of the selected year (or each date of a custom range); plot the points, solid above the horizon and dashed below it.</li>
           </ul>
         </aside>
       )}
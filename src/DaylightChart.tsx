@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import { SunTimesDay, parseDateISO } from './solar';
+import { formatUtcOffset } from './timeZones';
+
+interface DaylightChartProps {
+  days: SunTimesDay[];
+  timeZone: string | null;
+  tzOffsetHours: number;
+}
+
+// Bands from darkest to lightest; each is drawn between its dawn and dusk on top of the previous one
+const BANDS: Array<{ key: string; label: string; altitudeDeg: number; dawn: keyof SunTimesDay; dusk: keyof SunTimesDay; fill: string }> = [
+  { key: 'astronomical', label: 'Astronomical twilight', altitudeDeg: -18, dawn: 'astronomicalDawn', dusk: 'astronomicalDusk', fill: '#334155' },
+  { key: 'nautical', label: 'Nautical twilight', altitudeDeg: -12, dawn: 'nauticalDawn', dusk: 'nauticalDusk', fill: '#475f8a' },
+  { key: 'civil', label: 'Civil twilight', altitudeDeg: -6, dawn: 'civilDawn', dusk: 'civilDusk', fill: '#7c9cc9' },
+  { key: 'day', label: 'Daylight', altitudeDeg: -0.833, dawn: 'sunrise', dusk: 'sunset', fill: '#fde68a' },
+];
+
+const NIGHT_FILL = '#1e293b';
+
+function formatClock(minutes: number | null) {
+  if (minutes === null) return '—';
+  const m = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+}
+
+// Clock intervals (minutes, within 0-1440) covered by a band on one day.
+// A missing dawn/dusk means the Sun stays above the band's altitude all day, or never reaches it.
+function bandIntervals(day: SunTimesDay, band: typeof BANDS[number]): Array<[number, number]> {
+  const dawn = day[band.dawn] as number | null;
+  const dusk = day[band.dusk] as number | null;
+  if (dawn === null || dusk === null) {
+    const alwaysAbove = band.key === 'day' ? day.polar === 'day' : day.noonAltitudeDeg > band.altitudeDeg;
+    return alwaysAbove ? [[0, 1440]] : [];
+  }
+  // Split intervals that cross local midnight
+  const intervals: Array<[number, number]> = [];
+  for (const shift of [-1440, 0, 1440]) {
+    const a = Math.max(0, dawn + shift);
+    const b = Math.min(1440, dusk + shift);
+    if (b > a) intervals.push([a, b]);
+  }
+  return intervals;
+}
+
+export function DaylightChart({ days, timeZone, tzOffsetHours }: DaylightChartProps) {
+  const [size, setSize] = useState<{ w: number; h: number }>({ w: 800, h: 360 });
+  const [hoveredDay, setHoveredDay] = useState<SunTimesDay | null>(null);
+  const containerRef = React.useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(() => {
+      setSize({ w: el.clientWidth, h: el.clientHeight });
+    });
+    ro.observe(el);
+    setSize({ w: el.clientWidth, h: el.clientHeight });
+    return () => ro.disconnect();
+  }, []);
+
+  const paddingTop = 50;
+  const paddingBottom = 50;
+  const paddingLeft = 50;
+  const paddingRight = 20;
+  const chartWidth = size.w - paddingLeft - paddingRight;
+  const chartHeight = size.h - paddingTop - paddingBottom;
+
+  if (days.length === 0) {
+    return (
+      <div ref={containerRef} style={{ width: '100%', height: '300px', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <p style={{ color: '#999' }}>No data</p>
+      </div>
+    );
+  }
+
+  const columnWidth = chartWidth / days.length;
+  const xScale = (dayOfYear: number) => paddingLeft + (dayOfYear - 1) * columnWidth;
+  // Midnight at the bottom, noon in the middle
+  const yScale = (minutes: number) => paddingTop + (1 - minutes / 1440) * chartHeight;
+
+  // Rise, transit and set lines, broken where the event does not happen or jumps (DST, midnight)
+  const linePath = (key: 'sunrise' | 'solarNoon' | 'sunset') => {
+    const segments: string[] = [];
+    let prev: number | null = null;
+    for (const day of days) {
+      const value = day[key];
+      const minutes = value === null ? null : ((value % 1440) + 1440) % 1440;
+      if (minutes === null) {
+        prev = null;
+        continue;
+      }
+      const x = (xScale(day.dayOfYear) + columnWidth / 2).toFixed(2);
+      const y = yScale(minutes).toFixed(2);
+      segments.push(`${prev === null || Math.abs(minutes - prev) > 30 ? 'M' : 'L'} ${x} ${y}`);
+      prev = minutes;
+    }
+    return segments.join(' ');
+  };
+
+  const monthStarts = days.filter(d => parseDateISO(d.dateISO).day === 1);
+  const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const idx = Math.floor((e.clientX - rect.left - paddingLeft) / columnWidth);
+    setHoveredDay(idx >= 0 && idx < days.length ? days[idx] : null);
+  };
+
+  const summaryDay = hoveredDay ?? days[Math.floor(days.length / 2)];
+  const { day: summaryDate, month: summaryMonth } = parseDateISO(summaryDay.dateISO);
+  const dayLength = Math.round(summaryDay.dayLengthMinutes);
+
+  return (
+    <div ref={containerRef} style={{ width: '100%', height: '360px' }}>
+      <svg
+        width={size.w}
+        height={size.h}
+        style={{ border: '1px solid #ddd', background: '#fff', cursor: 'crosshair' }}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoveredDay(null)}
+      >
+        {/* Night background, then twilight bands and daylight per day */}
+        <rect x={paddingLeft} y={paddingTop} width={chartWidth} height={chartHeight} fill={NIGHT_FILL} />
+        {BANDS.map(band => (
+          <g key={band.key} fill={band.fill}>
+            {days.flatMap(day => bandIntervals(day, band).map(([a, b], i) => (
+              <rect
+                key={`${day.dayOfYear}-${i}`}
+                x={xScale(day.dayOfYear)}
+                y={yScale(b)}
+                width={columnWidth + 0.5}
+                height={yScale(a) - yScale(b)}
+              />
+            )))}
+          </g>
+        ))}
+
+        {/* Hour grid */}
+        {[0, 3, 6, 9, 12, 15, 18, 21, 24].map(hour => {
+          const y = yScale(hour * 60);
+          return (
+            <g key={hour}>
+              <line x1={paddingLeft} y1={y} x2={size.w - paddingRight} y2={y} stroke="#fff" strokeOpacity={0.25} strokeDasharray="2,2" />
+              <text x={paddingLeft - 8} y={y} textAnchor="end" dominantBaseline="middle" fontSize={10} fill="#666">
+                {`${String(hour).padStart(2, '0')}:00`}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Month ticks */}
+        {monthStarts.map(d => {
+          const x = xScale(d.dayOfYear);
+          return (
+            <g key={d.dateISO}>
+              <line x1={x} y1={size.h - paddingBottom} x2={x} y2={size.h - paddingBottom + 5} stroke="#bbb" />
+              <text x={x + columnWidth * 15} y={size.h - paddingBottom + 16} textAnchor="middle" fontSize={10} fill="#666">
+                {monthNames[parseDateISO(d.dateISO).month - 1]}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Sunrise, solar noon and sunset */}
+        <path d={linePath('sunrise')} fill="none" stroke="#ea580c" strokeWidth={1.5} />
+        <path d={linePath('sunset')} fill="none" stroke="#ea580c" strokeWidth={1.5} />
+        <path d={linePath('solarNoon')} fill="none" stroke="#b45309" strokeWidth={1} strokeDasharray="4,3" />
+
+        {/* Hover cursor */}
+        {hoveredDay && (
+          <line
+            x1={xScale(hoveredDay.dayOfYear) + columnWidth / 2}
+            y1={paddingTop}
+            x2={xScale(hoveredDay.dayOfYear) + columnWidth / 2}
+            y2={size.h - paddingBottom}
+            stroke="#111"
+            strokeWidth={1}
+          />
+        )}
+
+        {/* Axis labels */}
+        <text
+          x={12}
+          y={size.h / 2}
+          textAnchor="middle"
+          fontSize={12}
+          fill="#666"
+          transform={`rotate(-90 12 ${size.h / 2})`}
+        >
+          {timeZone ? `Clock time (${timeZone})` : `Clock time (${formatUtcOffset(tzOffsetHours)})`}
+        </text>
+
+        {/* Title and day summary */}
+        <text x={size.w / 2} y={18} textAnchor="middle" fontSize={14} fontWeight="bold" fill="#333">
+          Daylight and Twilight
+        </text>
+        <text x={size.w / 2} y={36} textAnchor="middle" fontSize={11} fill="#666">
+          {`${summaryDate} ${monthNames[summaryMonth - 1]}: `}
+          {summaryDay.polar === 'day'
+            ? 'Sun above the horizon all day'
+            : summaryDay.polar === 'night'
+              ? 'Sun below the horizon all day'
+              : `Sunrise ${formatClock(summaryDay.sunrise)} · Sunset ${formatClock(summaryDay.sunset)}`}
+          {` · Solar noon ${formatClock(summaryDay.solarNoon)} (${summaryDay.noonAltitudeDeg.toFixed(1)}°)`}
+          {` · Day length ${Math.floor(dayLength / 60)}h ${String(dayLength % 60).padStart(2, '0')}m`}
+        </text>
+
+        {/* Legend */}
+        <g transform={`translate(${paddingLeft}, ${size.h - 16})`} fontSize={9} fill="#666">
+          {BANDS.map((band, i) => (
+            <g key={band.key} transform={`translate(${i * 120}, 0)`}>
+              <rect x={0} y={-8} width={10} height={10} fill={band.fill} stroke="#999" strokeWidth={0.5} />
+              <text x={14} y={0}>{band.label}</text>
+            </g>
+          ))}
+          <g transform={`translate(${BANDS.length * 120}, 0)`}>
+            <rect x={0} y={-8} width={10} height={10} fill={NIGHT_FILL} />
+            <text x={14} y={0}>Night</text>
+          </g>
+        </g>
+      </svg>
+    </div>
+  );
+}
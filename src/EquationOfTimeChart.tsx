@@ -1,41 +1,93 @@
 import React, { useEffect, useState, useMemo } from 'react';
-import { EotPoint, computeAnalemmaInset, AnalemmaInsetPoint, TimeMode } from './solar';
+import {
+  DaySelection,
+  EotKeyDate,
+  EotPoint,
+  computeAnalemmaInset,
+  computeEquationOfTimeForElements,
+  earthOrbitalElements,
+  AnalemmaInsetPoint,
+  OrbitalElements,
+  PlanetaryBody,
+  SeasonEventKind,
+  TimeMode,
+  findEotKeyDates,
+  findSeasonEvents,
+  isSameDay,
+  parseDateISO
+} from './solar';
 import { computeEnuDomainsAspectLocked } from './enuScaling';
 
 interface EquationOfTimeChartProps {
   points: EotPoint[];
+  year: number;
   latitude: number;
   longitude: number;
   timeMode: TimeMode;
   tzOffsetHours: number;
+  timeZone: string | null;
+  body?: PlanetaryBody;  // Non-Earth body: x axis is in sols and minutes are 1/1440 sol
+  cursor?: DaySelection;  // Playback position to mark on the curve
+  highlight?: DaySelection | null;  // Day hovered or pinned in any chart
+  today?: DaySelection;  // Live mode: the current date
+  onHoverDay?: (day: DaySelection | null) => void;
+  onSelectDay?: (day: DaySelection) => void;
 }
 
-export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzOffsetHours }: EquationOfTimeChartProps) {
+export function EquationOfTimeChart({
+  points: basePoints, year, latitude, longitude, timeMode, tzOffsetHours, timeZone, body, cursor, highlight, today, onHoverDay, onSelectDay,
+}: EquationOfTimeChartProps) {
   const [size, setSize] = useState<{ w: number; h: number }>({ w: 800, h: 400 });
   const [hoveredPoint, setHoveredPoint] = useState<EotPoint | null>(null);
   const [mousePos, setMousePos] = useState<{ x: number; y: number } | null>(null);
   const [showObliquity, setShowObliquity] = useState(false);
   const [showEccentricity, setShowEccentricity] = useState(false);
+  // What-if orbit: continuous obliquity, eccentricity and perihelion in place of the real values
+  const [whatIfEnabled, setWhatIfEnabled] = useState(false);
+  const [whatIfElements, setWhatIfElements] = useState<OrbitalElements | null>(null);
   const containerRef = React.useRef<HTMLDivElement>(null);
   
   // Compute analemma inset points based on component toggles
   // Extract timeMode values to avoid object reference changes causing re-renders
+  const timeKind = timeMode.kind;
   const timeHH = timeMode.hh;
   const timeMM = timeMode.mm;
 
-  const insetYear = useMemo(() => {
-    if (points.length === 0) return new Date().getFullYear();
-    const y = Number.parseInt(points[0].dateISO.slice(0, 4), 10);
-    return Number.isFinite(y) ? y : new Date().getFullYear();
-  }, [points]);
-  
+  const baseElements = useMemo<OrbitalElements>(
+    () => (body ? body.elements : earthOrbitalElements(year)),
+    [body, year]
+  );
+  // Slider values belong to one body and epoch; start over when those change
+  useEffect(() => {
+    setWhatIfEnabled(false);
+    setWhatIfElements(null);
+  }, [baseElements]);
+  const activeElements = whatIfEnabled && whatIfElements ? whatIfElements : baseElements;
+
+  // With the what-if orbit active, the EoT curves come from the slider values instead of the selected model
+  const points = useMemo<EotPoint[]>(() => {
+    if (!whatIfEnabled || !whatIfElements) return basePoints;
+    return computeEquationOfTimeForElements(year, whatIfElements, body);
+  }, [basePoints, whatIfEnabled, whatIfElements, year, body]);
+
+  const seasonEvents = useMemo(
+    () => (body ? [] : findSeasonEvents(year, { timeZone: timeZone ?? undefined, tzOffsetHours })),
+    [body, year, timeZone, tzOffsetHours]
+  );
+
+  // Inset shows the checked components only; with none checked in what-if mode, the full figure
   const analemmaInsetPoints = useMemo<AnalemmaInsetPoint[]>(() => {
+    const showAll = !showObliquity && !showEccentricity;
     return computeAnalemmaInset(
-      { latitudeDeg: latitude, longitudeDeg: longitude, timeMode: { kind: 'fixedLocalTime', hh: timeHH, mm: timeMM }, tzOffsetHours, year: insetYear },
-      showObliquity,
-      showEccentricity
+      { latitudeDeg: latitude, longitudeDeg: longitude, timeMode: { kind: timeKind, hh: timeHH, mm: timeMM }, tzOffsetHours, timeZone: timeZone ?? undefined, year, body },
+      activeElements,
+      { obliquity: showAll || showObliquity, eccentricity: showAll || showEccentricity }
     );
-  }, [latitude, longitude, timeHH, timeMM, tzOffsetHours, insetYear, showObliquity, showEccentricity]);
+  }, [latitude, longitude, timeKind, timeHH, timeMM, tzOffsetHours, timeZone, year, body, activeElements, showObliquity, showEccentricity]);
+
+  const updateWhatIf = (patch: Partial<OrbitalElements>) => {
+    setWhatIfElements(prev => ({ ...(prev ?? baseElements), ...patch }));
+  };
 
   useEffect(() => {
     const el = containerRef.current;
@@ -102,62 +154,82 @@ export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzO
     return `${i === 0 ? 'M' : 'L'} ${x.toFixed(2)} ${y.toFixed(2)}`;
   }).join(' ');
 
+  // The NOAA fit is not built from the two geometric parts; what it adds on top is its own term
+  const hasFitResidual = points.length > 0 && points.every(p => p.fitResidualComponent !== undefined);
+  const fitResidualPathData = hasFitResidual
+    ? points.map((p, i) => {
+      const x = xScale(p.dayOfYear);
+      const y = yScale(p.fitResidualComponent!);
+      return `${i === 0 ? 'M' : 'L'} ${x.toFixed(2)} ${y.toFixed(2)}`;
+    }).join(' ')
+    : '';
+
   // Y-axis ticks (every 5 minutes)
   const yTicks: number[] = [];
-  const tickInterval = 5;
+  // Every 5 minutes for Earth-like ranges, coarser for what-if orbits and other planets
+  const tickInterval = [5, 10, 20, 30, 60].find(t => (yMax - yMin) / t <= 12) ?? 120;
   const startTick = Math.ceil(yMin / tickInterval) * tickInterval;
   for (let tick = startTick; tick <= yMax; tick += tickInterval) {
     yTicks.push(tick);
   }
 
-  // Find extrema (local maxima and minima)
-  const extrema: Array<{ point: EotPoint; type: 'max' | 'min'; label: string }> = [];
-  
-  // Find global max and min
-  let maxPoint = points[0];
-  let minPoint = points[0];
-  for (const p of points) {
-    if (p.eotMinutes > maxPoint.eotMinutes) maxPoint = p;
-    if (p.eotMinutes < minPoint.eotMinutes) minPoint = p;
-  }
-  
-  // Find local extrema by checking sign changes in derivative
-  for (let i = 1; i < points.length - 1; i++) {
-    const prev = points[i - 1].eotMinutes;
-    const curr = points[i].eotMinutes;
-    const next = points[i + 1].eotMinutes;
-    
-    // Local maximum
-    if (curr > prev && curr > next && Math.abs(curr) > 5) {
-      const isGlobalMax = points[i].dateISO === maxPoint.dateISO;
-      extrema.push({
-        point: points[i],
-        type: 'max',
-        label: isGlobalMax ? `Clock ahead by ${curr.toFixed(1)} min` : `Local max: ${curr.toFixed(1)} min`
-      });
-    }
-    // Local minimum
-    else if (curr < prev && curr < next && Math.abs(curr) > 5) {
-      const isGlobalMin = points[i].dateISO === minPoint.dateISO;
-      extrema.push({
-        point: points[i],
-        type: 'min',
-        label: isGlobalMin ? `Clock behind by ${Math.abs(curr).toFixed(1)} min` : `Local min: ${curr.toFixed(1)} min`
-      });
+  // Zero crossings and extrema, interpolated between samples; the largest of each sign is the clock offset
+  const eotKeyDates = findEotKeyDates(points);
+  const extrema = eotKeyDates.filter(k => k.kind !== 'zero');
+  const zeroCrossings = eotKeyDates.filter(k => k.kind === 'zero');
+  const maxEotKeyDate = Math.max(...extrema.map(k => k.eotMinutes));
+  const minEotKeyDate = Math.min(...extrema.map(k => k.eotMinutes));
+  const keyDateWhen = (k: EotKeyDate) => {
+    if (body) return `sol ${Math.round(k.dayOfYear - 1)}`;
+    const { day, month } = parseDateISO(k.dateISO);
+    return `${day} ${['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'][month - 1]}`;
+  };
+  const extremumLabel = (k: EotKeyDate) => {
+    if (k.kind === 'max') {
+      return k.eotMinutes === maxEotKeyDate
+        ? `Clock ahead by ${k.eotMinutes.toFixed(1)} min (${keyDateWhen(k)})`
+        : `Local max: ${k.eotMinutes.toFixed(1)} min (${keyDateWhen(k)})`;
     }
-  }
-  
-  // Solstice and equinox approximate days (non-leap year)
-  const keyDates = [
-    { day: 79, label: 'Mar Equinox', shortLabel: 'Mar Eq' },
-    { day: 172, label: 'Jun Solstice', shortLabel: 'Jun Sol' },
-    { day: 265, label: 'Sep Equinox', shortLabel: 'Sep Eq' },
-    { day: 355, label: 'Dec Solstice', shortLabel: 'Dec Sol' }
-  ];
+    return k.eotMinutes === minEotKeyDate
+      ? `Clock behind by ${Math.abs(k.eotMinutes).toFixed(1)} min (${keyDateWhen(k)})`
+      : `Local min: ${k.eotMinutes.toFixed(1)} min (${keyDateWhen(k)})`;
+  };
+
+  // Solstices, equinoxes and apsides on the observer's local date
+  const shortLabels: Record<SeasonEventKind, string> = {
+    marchEquinox: 'Mar Eq',
+    juneSolstice: 'Jun Sol',
+    septemberEquinox: 'Sep Eq',
+    decemberSolstice: 'Dec Sol',
+    perihelion: 'Peri',
+    aphelion: 'Aph',
+  };
+  let keyDates = seasonEvents.flatMap(e => {
+    const p = points.find(pt => pt.dateISO === e.dateISO);
+    return p ? [{ day: p.dayOfYear, label: `${e.label} ${e.dateISO} ${e.localTime}`, shortLabel: shortLabels[e.kind] }] : [];
+  });
   
   // X-axis ticks (monthly)
-  const monthStarts = [1, 32, 60, 91, 121, 152, 182, 213, 244, 274, 305, 335];
-  const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+  let monthStarts = [1, 32, 60, 91, 121, 152, 182, 213, 244, 274, 305, 335];
+  let monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+  if (body) {
+    // Sol calendar: seasons where Ls passes 90° steps, ticks every 100 sols
+    keyDates = [
+      { ls: 90, shortLabel: 'N Sum Sol' },
+      { ls: 180, shortLabel: 'N Aut Eq' },
+      { ls: 270, shortLabel: 'N Win Sol' }
+    ].flatMap(({ ls, shortLabel }) => {
+      const idx = points.findIndex(p => (p.solarLongitudeDeg ?? 0) >= ls);
+      return idx >= 0 ? [{ day: points[idx].dayOfYear, label: shortLabel, shortLabel }] : [];
+    });
+    monthStarts = [];
+    monthNames = [];
+    for (let sol = 0; sol < points.length; sol += 100) {
+      monthStarts.push(sol + 1);
+      monthNames.push(`Sol ${sol}`);
+    }
+  }
   
   // Build shaded area paths for positive and negative regions
   const zeroY = yScale(0);
@@ -200,6 +272,11 @@ export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzO
     negativeAreaSegments.push(`L ${xScale(lastP.dayOfYear)} ${zeroY} Z`);
   }
   
+  // Other bodies' points are one per sol, numbered from dayOfYear 1
+  const daySelection = (p: EotPoint): DaySelection => (body ? { dateISO: p.dateISO, sol: p.dayOfYear - 1 } : { dateISO: p.dateISO });
+  const findDay = (day: DaySelection | null | undefined) => (day ? points.find(p => isSameDay(daySelection(p), day)) : undefined);
+  const highlightPoint = findDay(highlight);
+
   const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
     const svg = e.currentTarget;
     const rect = svg.getBoundingClientRect();
@@ -211,6 +288,7 @@ export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzO
     const closestIdx = Math.round(dayOfYear - 1);
     
     if (closestIdx >= 0 && closestIdx < points.length) {
+      if (points[closestIdx] !== hoveredPoint) onHoverDay?.(daySelection(points[closestIdx]));
       setHoveredPoint(points[closestIdx]);
       setMousePos({ x: e.clientX - rect.left, y: e.clientY - rect.top });
     }
@@ -219,6 +297,7 @@ export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzO
   const handleMouseLeave = () => {
     setHoveredPoint(null);
     setMousePos(null);
+    onHoverDay?.(null);
   };
 
   return (
@@ -229,6 +308,7 @@ export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzO
         style={{ border: '1px solid #ddd', background: '#fff', cursor: 'crosshair' }}
         onMouseMove={handleMouseMove}
         onMouseLeave={handleMouseLeave}
+        onClick={() => hoveredPoint && onSelectDay?.(daySelection(hoveredPoint))}
       >
         {/* Shaded regions for positive/negative EoT */}
         <path
@@ -283,12 +363,13 @@ export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzO
           );
         })}
 
-        {/* Solstice/Equinox reference lines */}
+        {/* Solstice, equinox and apsis reference lines */}
         {keyDates.map((kd, i) => {
           if (kd.day > points.length) return null;
           const x = xScale(kd.day);
           return (
             <g key={`keydate-${i}`}>
+              <title>{kd.label}</title>
               <line
                 x1={x}
                 y1={paddingTop}
@@ -362,6 +443,16 @@ export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzO
             opacity={0.8}
           />
         )}
+        {hasFitResidual && (showObliquity || showEccentricity) && (
+          <path
+            d={fitResidualPathData}
+            fill="none"
+            stroke="#6b7280"
+            strokeWidth={1}
+            strokeDasharray="2,2"
+            opacity={0.8}
+          />
+        )}
         
         {/* EoT curve (total) */}
         <path
@@ -371,11 +462,21 @@ export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzO
           strokeWidth={2}
         />
         
+        {/* Zero crossings: sundial and clock agree */}
+        {zeroCrossings.map((k, i) => (
+          <g key={`zero-${i}`}>
+            <circle cx={xScale(k.dayOfYear)} cy={zeroY} r={3.5} fill="#fff" stroke="#111" strokeWidth={1.5} />
+            <text x={xScale(k.dayOfYear) + 5} y={zeroY + 14} fontSize={9} fill="#374151">
+              {keyDateWhen(k)}
+            </text>
+          </g>
+        ))}
+
         {/* Extrema markers and labels */}
         {extrema.map((ext, i) => {
-          const x = xScale(ext.point.dayOfYear);
-          const y = yScale(ext.point.eotMinutes);
-          const isMax = ext.type === 'max';
+          const x = xScale(ext.dayOfYear);
+          const y = yScale(ext.eotMinutes);
+          const isMax = ext.kind === 'max';
           
           return (
             <g key={`extrema-${i}`}>
@@ -395,19 +496,63 @@ export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzO
                 fill={isMax ? '#dc2626' : '#2563eb'}
                 fontWeight="600"
               >
-                {ext.label}
+                {extremumLabel(ext)}
               </text>
             </g>
           );
         })}
         
+        {/* Today, in live mode */}
+        {(() => {
+          const todayPoint = findDay(today);
+          if (!todayPoint) return null;
+          const x = xScale(todayPoint.dayOfYear);
+          return (
+            <g pointerEvents="none">
+              <line x1={x} y1={paddingTop} x2={x} y2={size.h - paddingBottom} stroke="#16a34a" strokeWidth={1.5} />
+              <circle cx={x} cy={yScale(todayPoint.eotMinutes)} r={4} fill="#16a34a" stroke="#fff" strokeWidth={1.5} />
+              <text x={x + 4} y={paddingTop + 10} fontSize={10} fill="#15803d">Today</text>
+            </g>
+          );
+        })()}
+
+        {/* Day hovered or pinned in either chart */}
+        {highlightPoint && (
+          <g pointerEvents="none">
+            <line
+              x1={xScale(highlightPoint.dayOfYear)}
+              y1={paddingTop}
+              x2={xScale(highlightPoint.dayOfYear)}
+              y2={size.h - paddingBottom}
+              stroke="#7c3aed"
+              strokeWidth={1}
+              strokeDasharray="4,3"
+            />
+            <circle cx={xScale(highlightPoint.dayOfYear)} cy={yScale(highlightPoint.eotMinutes)} r={5} fill="none" stroke="#7c3aed" strokeWidth={2} />
+          </g>
+        )}
+
+        {/* Cursor synced with the analemma chart */}
+        {(() => {
+          const cursorPoint = findDay(cursor);
+          if (!cursorPoint) return null;
+          const x = xScale(cursorPoint.dayOfYear);
+          return (
+            <g pointerEvents="none">
+              <line x1={x} y1={paddingTop} x2={x} y2={size.h - paddingBottom} stroke="#f59e0b" strokeWidth={1.5} />
+              <circle cx={x} cy={yScale(cursorPoint.eotMinutes)} r={5} fill="#fbbf24" stroke="#b45309" strokeWidth={1.5} />
+            </g>
+          );
+        })()}
+
         {/* Hover tooltip */}
         {hoveredPoint && mousePos && (() => {
           // Format date as "11 Feb"
-          const date = new Date(hoveredPoint.dateISO);
-          const day = date.getDate();
+          const { day, month } = parseDateISO(hoveredPoint.dateISO);
           const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-          const formattedDate = `${day} ${monthNames[date.getMonth()]}`;
+          const formattedDate = body
+            ? `Sol ${hoveredPoint.dayOfYear - 1} · Ls ${(hoveredPoint.solarLongitudeDeg ?? 0).toFixed(0)}°`
+            : `${day} ${monthNames[month - 1]}`;
           
           // Calculate solar noon time
           const eot = hoveredPoint.eotMinutes;
@@ -485,7 +630,7 @@ export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzO
           fontSize={12}
           fill="#666"
         >
-          Date
+          {body ? `Sol (${body.name} year from northern spring equinox)` : 'Date'}
         </text>
         <text
           x={12}
@@ -495,7 +640,7 @@ export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzO
           fill="#666"
           transform={`rotate(-90 12 ${size.h / 2})`}
         >
-          Equation of Time (minutes)
+          {body ? 'Equation of Time (minutes of 1/1440 sol)' : 'Equation of Time (minutes)'}
         </text>
 
         {/* Title and subtitle */}
@@ -507,7 +652,7 @@ export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzO
           fontWeight="bold"
           fill="#333"
         >
-          Equation of Time
+          {body ? `Equation of Time on ${body.name}` : 'Equation of Time'}
         </text>
         <text
           x={size.w / 2}
@@ -551,12 +696,22 @@ export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzO
           <text x={30} y={44} fontSize={9} fill={showEccentricity ? "#666" : "#999"}>
             Orbital shape
           </text>
+
+          {/* NOAA fit residual line */}
+          {hasFitResidual && (
+            <>
+              <line x1={0} y1={54} x2={25} y2={54} stroke="#6b7280" strokeWidth={1} strokeDasharray="2,2" opacity={showObliquity || showEccentricity ? 0.8 : 0.3} />
+              <text x={30} y={57} fontSize={9} fill={showObliquity || showEccentricity ? "#666" : "#999"}>
+                NOAA fit residual
+              </text>
+            </>
+          )}
         </g>
         
         {/* Analemma inset (bottom-right corner) */}
         {(() => {
-          // Hide inset if both components are disabled (no analemma without EoT variation)
-          if (!showObliquity && !showEccentricity) return null;
+          // Hide inset unless a component or the what-if orbit is selected
+          if (!showObliquity && !showEccentricity && !whatIfEnabled) return null;
           
           // Inset dimensions and position
           const insetWidth = Math.min(size.w * 0.14, 115);
@@ -596,9 +751,9 @@ export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzO
           const uScaleMin = uDomain[0];
           const uScaleMax = uDomain[1];
           
-          // Scale functions for inset (E = x, U = y)
+          // Scale functions for inset (E = x with East on the left, U = y)
           const insetXScale = (e: number) => {
-            return insetX + ((e - eScaleMin) / (eScaleMax - eScaleMin)) * insetWidth;
+            return insetX + ((eScaleMax - e) / (eScaleMax - eScaleMin)) * insetWidth;
           };
           
           const insetYScale = (u: number) => {
@@ -612,6 +767,9 @@ export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzO
               y: insetYScale(p.U)
             };
           });
+
+          // Inset samples run day by day (sol by sol) like the EoT points
+          const insetHighlight = highlightPoint ? analemmaInsetPoints[points.indexOf(highlightPoint)] : undefined;
           
           return (
             <g>
@@ -637,6 +795,9 @@ export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzO
                   fill="#2563eb"
                 />
               ))}
+              {insetHighlight?.visible && (
+                <circle cx={insetXScale(insetHighlight.E)} cy={insetYScale(insetHighlight.U)} r={3} fill="none" stroke="#7c3aed" strokeWidth={1.5} />
+              )}
               
               {/* Inset label */}
               <text
@@ -702,6 +863,48 @@ export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzO
           </span>
         </label>
       </div>
+
+      {/* What-if orbit sliders */}
+      <div style={{ marginTop: 8, padding: '0 8px', display: 'flex', flexWrap: 'wrap', gap: '16px', alignItems: 'center', fontSize: 12, color: '#555' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={whatIfEnabled}
+            onChange={(e) => {
+              setWhatIfEnabled(e.target.checked);
+              if (e.target.checked && !whatIfElements) setWhatIfElements(baseElements);
+            }}
+            style={{ cursor: 'pointer' }}
+          />
+          <strong style={{ color: '#333' }}>What-if orbit</strong>
+        </label>
+        {([
+          { key: 'obliquityDeg', label: 'Tilt', min: 0, max: 90, step: 0.1, format: (v: number) => `${v.toFixed(1)}°` },
+          { key: 'eccentricity', label: 'Eccentricity', min: 0, max: 0.5, step: 0.001, format: (v: number) => v.toFixed(3) },
+          { key: 'perihelionLongitudeDeg', label: 'Perihelion longitude', min: 0, max: 360, step: 1, format: (v: number) => `${v.toFixed(0)}°` }
+        ] as const).map(slider => (
+          <label key={slider.key} style={{ display: 'flex', alignItems: 'center', gap: '6px', opacity: whatIfEnabled ? 1 : 0.5 }}>
+            {slider.label}
+            <input
+              type="range"
+              min={slider.min}
+              max={slider.max}
+              step={slider.step}
+              value={activeElements[slider.key]}
+              disabled={!whatIfEnabled}
+              onChange={(e) => updateWhatIf({ [slider.key]: Number(e.target.value) })}
+            />
+            <span style={{ minWidth: 40, fontVariantNumeric: 'tabular-nums' }}>{slider.format(activeElements[slider.key])}</span>
+          </label>
+        ))}
+        <button
+          onClick={() => setWhatIfElements(baseElements)}
+          disabled={!whatIfEnabled}
+          style={{ padding: '4px 8px', fontSize: 12 }}
+        >
+          Reset to {body ? body.name : 'Earth'}
+        </button>
+      </div>
       
       {/* Explanatory caption */}
       <div style={{ marginTop: 12, padding: '0 8px', fontSize: 12, color: '#555', lineHeight: 1.6 }}>
@@ -719,7 +922,9 @@ export function EquationOfTimeChart({ points, latitude, longitude, timeMode, tzO
         {(showObliquity || showEccentricity) && (
           <p style={{ margin: '8px 0 4px', fontSize: 11, color: '#059669', fontWeight: '500' }}>
             ℹ️ The two component curves add together to produce the total Equation of Time. 
-            This decomposition shows how Earth's tilted axis and elliptical orbit each contribute to the effect.
+            The orbit curve is the equation of center from Kepler's equation (how far the true Sun runs ahead of or behind
+            the mean Sun along the ecliptic); the tilt curve is the reduction of that longitude to right ascension on the equator.
+            {hasFitResidual && ' Both come from the Kepler orbit; the NOAA fit differs from their sum by the small gray residual curve, which completes the total.'}
           </p>
         )}
       </div>
@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AnalemmaInputs, AnalemmaPoint, computeSunPath, horizonAltitudeAt, parseDateISO, seasonDates } from './solar';
+
+interface SunPathChartProps {
+  inputs: Omit<AnalemmaInputs, 'sampling' | 'body'>;  // Earth site, zone and model; timeMode sets the analemma crossing
+  analemma: AnalemmaPoint[];
+}
+
+const PATH_COLORS = ['#16a34a', '#dc2626', '#d97706', '#2563eb', '#7c3aed', '#db2777', '#0891b2', '#65a30d'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const COMPASS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+function formatShortDate(dateISO: string) {
+  const { day, month } = parseDateISO(dateISO);
+  return `${day} ${MONTH_NAMES[month - 1]}`;
+}
+
+export function SunPathChart({ inputs, analemma }: SunPathChartProps) {
+  const [size, setSize] = useState<{ w: number; h: number }>({ w: 800, h: 420 });
+  const [extraDates, setExtraDates] = useState<string[]>([]);
+  const [newDate, setNewDate] = useState('');
+  const containerRef = React.useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(() => {
+      setSize({ w: el.clientWidth, h: el.clientHeight });
+    });
+    ro.observe(el);
+    setSize({ w: el.clientWidth, h: el.clientHeight });
+    return () => ro.disconnect();
+  }, []);
+
+  const year = inputs.year ?? new Date().getFullYear();
+  const dates = useMemo(() => [
+    ...seasonDates(year, inputs),
+    ...extraDates.map(dateISO => ({ dateISO, label: formatShortDate(dateISO) })),
+  ], [year, inputs.timeZone, inputs.tzOffsetHours, extraDates]);
+
+  const paths = useMemo(
+    () => dates.map(d => ({ ...d, points: computeSunPath(inputs, d.dateISO) })),
+    [inputs, dates]
+  );
+
+  const paddingTop = 40;
+  const paddingBottom = 40;
+  const paddingLeft = 45;
+  const paddingRight = 20;
+  const chartWidth = size.w - paddingLeft - paddingRight;
+  const chartHeight = size.h - paddingTop - paddingBottom;
+
+  // Azimuth axis centred on the meridian the Sun culminates over: south in the north, north in the south
+  const centerAz = inputs.latitudeDeg >= 0 ? 180 : 0;
+  const relAz = (az: number) => ((az - centerAz + 540) % 360) - 180;
+  const altMin = -10;
+  const altMax = 90;
+  const xScale = (az: number) => paddingLeft + ((relAz(az) + 180) / 360) * chartWidth;
+  const yScale = (alt: number) => paddingTop + (1 - (alt - altMin) / (altMax - altMin)) * chartHeight;
+
+  // Break a path where it wraps around the edges of the azimuth axis
+  const pathData = (points: AnalemmaPoint[]) => {
+    const segments: string[] = [];
+    points.forEach((p, i) => {
+      const wraps = i > 0 && Math.abs(relAz(p.azimuthDeg) - relAz(points[i - 1].azimuthDeg)) > 180;
+      segments.push(`${i === 0 || wraps ? 'M' : 'L'} ${xScale(p.azimuthDeg).toFixed(2)} ${yScale(p.altitudeDeg).toFixed(2)}`);
+    });
+    return segments.join(' ');
+  };
+
+  // Horizon profile as a skyline filled down to the bottom of the plot
+  const skylinePath = inputs.horizonProfile
+    ? Array.from({ length: 361 }, (_, i) => {
+        const az = centerAz - 180 + i;
+        const alt = horizonAltitudeAt(inputs.horizonProfile!, az);
+        return `${i === 0 ? 'M' : 'L'} ${(paddingLeft + (i / 360) * chartWidth).toFixed(2)} ${yScale(alt).toFixed(2)}`;
+      }).join(' ') + ` L ${size.w - paddingRight} ${yScale(altMin)} L ${paddingLeft} ${yScale(altMin)} Z`
+    : '';
+
+  const crossingTime = `${String(inputs.timeMode.hh).padStart(2, '0')}:${String(inputs.timeMode.mm).padStart(2, '0')}`;
+  // Hour labels go on the path that climbs highest, where they have the most room
+  const labelPath = paths.reduce<typeof paths[number] | null>((best, path) => {
+    const top = Math.max(...path.points.map(p => p.altitudeDeg));
+    return best === null || top > Math.max(...best.points.map(p => p.altitudeDeg)) ? path : best;
+  }, null);
+
+  function addDate() {
+    if (!newDate || dates.some(d => d.dateISO === newDate)) return;
+    setExtraDates(prev => [...prev, newDate]);
+    setNewDate('');
+  }
+
+  return (
+    <div>
+      <div ref={containerRef} style={{ width: '100%', height: '420px' }}>
+        <svg width={size.w} height={size.h} style={{ border: '1px solid #ddd', background: '#fff' }}>
+          <defs>
+            <clipPath id="sun-path-plot">
+              <rect x={paddingLeft} y={paddingTop} width={chartWidth} height={chartHeight} />
+            </clipPath>
+          </defs>
+
+          {/* Below the horizon */}
+          <rect x={paddingLeft} y={yScale(0)} width={chartWidth} height={yScale(altMin) - yScale(0)} fill="#f3f4f6" />
+
+          {/* Altitude grid */}
+          {[0, 10, 20, 30, 40, 50, 60, 70, 80, 90].map(alt => (
+            <g key={`alt-${alt}`}>
+              <line
+                x1={paddingLeft}
+                y1={yScale(alt)}
+                x2={size.w - paddingRight}
+                y2={yScale(alt)}
+                stroke={alt === 0 ? '#666' : '#e5e7eb'}
+                strokeDasharray={alt === 0 ? 'none' : '2,2'}
+              />
+              <text x={paddingLeft - 8} y={yScale(alt)} textAnchor="end" dominantBaseline="middle" fontSize={10} fill="#666">
+                {alt}°
+              </text>
+            </g>
+          ))}
+
+          {/* Azimuth grid */}
+          {COMPASS.map((label, i) => {
+            const x = xScale(i * 45);
+            return (
+              <g key={label}>
+                <line x1={x} y1={paddingTop} x2={x} y2={size.h - paddingBottom} stroke="#e5e7eb" strokeDasharray="2,2" />
+                <text x={x} y={size.h - paddingBottom + 16} textAnchor="middle" fontSize={10} fill="#666">
+                  {label} ({i * 45}°)
+                </text>
+              </g>
+            );
+          })}
+
+          <g clipPath="url(#sun-path-plot)">
+            {skylinePath && <path d={skylinePath} fill="#a8a29e" fillOpacity={0.45} stroke="#57534e" strokeWidth={1} />}
+
+            {/* Day paths with hourly dots */}
+            {paths.map((path, i) => {
+              const color = PATH_COLORS[i % PATH_COLORS.length];
+              return (
+                <g key={path.dateISO}>
+                  <path d={pathData(path.points)} fill="none" stroke={color} strokeWidth={1.75} />
+                  {path.points.filter(p => p.timeOfDay?.endsWith(':00') && p.altitudeDeg > altMin).map(p => (
+                    <g key={p.timeOfDay}>
+                      <circle cx={xScale(p.azimuthDeg)} cy={yScale(p.altitudeDeg)} r={2} fill={color} />
+                      {path === labelPath && p.visible && (
+                        <text x={xScale(p.azimuthDeg)} y={yScale(p.altitudeDeg) - 6} textAnchor="middle" fontSize={9} fill="#555">
+                          {p.timeOfDay!.slice(0, 2)}
+                        </text>
+                      )}
+                    </g>
+                  ))}
+                </g>
+              );
+            })}
+
+            {/* Current analemma */}
+            {analemma.filter(p => p.altitudeDeg > altMin).map((p, i) => (
+              <circle key={i} cx={xScale(p.azimuthDeg)} cy={yScale(p.altitudeDeg)} r={1.3} fill="#0b6cfb" opacity={p.visible ? 0.8 : 0.3} />
+            ))}
+
+            {/* Where each path meets the analemma: the path point at the configured time */}
+            {paths.map((path, i) => {
+              const p = path.points.find(pt => pt.timeOfDay === crossingTime);
+              if (!p || p.altitudeDeg <= altMin) return null;
+              return (
+                <circle
+                  key={`cross-${path.dateISO}`}
+                  cx={xScale(p.azimuthDeg)}
+                  cy={yScale(p.altitudeDeg)}
+                  r={5}
+                  fill="#fff"
+                  stroke={PATH_COLORS[i % PATH_COLORS.length]}
+                  strokeWidth={2}
+                >
+                  <title>{`${path.label} (${formatShortDate(path.dateISO)}) at ${crossingTime}\nAlt ${p.altitudeDeg.toFixed(1)}°, Az ${p.azimuthDeg.toFixed(1)}°`}</title>
+                </circle>
+              );
+            })}
+          </g>
+
+          {/* Axis labels */}
+          <text
+            x={12}
+            y={size.h / 2}
+            textAnchor="middle"
+            fontSize={12}
+            fill="#666"
+            transform={`rotate(-90 12 ${size.h / 2})`}
+          >
+            Altitude (°)
+          </text>
+
+          {/* Title */}
+          <text x={size.w / 2} y={18} textAnchor="middle" fontSize={14} fontWeight="bold" fill="#333">
+            Sun Path
+          </text>
+          <text x={size.w / 2} y={32} textAnchor="middle" fontSize={11} fill="#666">
+            Daily paths with hourly dots; open circles mark the analemma at {crossingTime}
+          </text>
+        </svg>
+      </div>
+
+      {/* Legend and date picker */}
+      <div style={{ marginTop: 8, display: 'flex', flexWrap: 'wrap', gap: '12px', alignItems: 'center', fontSize: 12, color: '#555' }}>
+        {paths.map((path, i) => (
+          <span key={path.dateISO} style={{ display: 'inline-flex', alignItems: 'center', gap: '4px' }}>
+            <span style={{ width: 16, height: 3, background: PATH_COLORS[i % PATH_COLORS.length], display: 'inline-block' }} />
+            {path.label === formatShortDate(path.dateISO) ? path.label : `${path.label} (${formatShortDate(path.dateISO)})`}
+            {extraDates.includes(path.dateISO) && (
+              <button
+                aria-label={`Remove ${path.label}`}
+                onClick={() => setExtraDates(prev => prev.filter(d => d !== path.dateISO))}
+                style={{ padding: '0 6px', fontSize: 12 }}
+              >
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+        <span style={{ display: 'inline-flex', alignItems: 'center', gap: '6px', marginLeft: 'auto' }}>
+          <input type="date" aria-label="Add a date" value={newDate} onChange={(e) => setNewDate(e.target.value)} style={{ width: 'auto' }} />
+          <button onClick={addDate} disabled={!newDate}>Add date</button>
+        </span>
+      </div>
+    </div>
+  );
+}
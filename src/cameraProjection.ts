@@ -0,0 +1,47 @@
+export interface CameraModel {
+  azimuthDeg: number;  // Pointing direction, clockwise from North
+  altitudeDeg: number;
+  focalLengthMm: number;
+  sensorWidthMm: number;
+  sensorHeightMm: number;
+}
+
+export const SENSOR_PRESETS: Array<{ id: string; label: string; widthMm: number; heightMm: number }> = [
+  { id: 'full-frame', label: 'Full frame (36 × 24 mm)', widthMm: 36, heightMm: 24 },
+  { id: 'aps-c', label: 'APS-C (23.6 × 15.6 mm)', widthMm: 23.6, heightMm: 15.6 },
+  { id: 'mft', label: 'Micro Four Thirds (17.3 × 13 mm)', widthMm: 17.3, heightMm: 13 },
+  { id: 'one-inch', label: '1" (13.2 × 8.8 mm)', widthMm: 13.2, heightMm: 8.8 },
+];
+
+// Directions further than this from the optical axis run off towards infinity and are not drawn
+export const MAX_OFF_AXIS_DEG = 80;
+
+// Optical axis, right and up directions of an unrolled camera, as ENU unit vectors
+function cameraBasis(camera: CameraModel) {
+  const az = (camera.azimuthDeg * Math.PI) / 180;
+  const alt = (camera.altitudeDeg * Math.PI) / 180;
+  const forward = { E: Math.cos(alt) * Math.sin(az), N: Math.cos(alt) * Math.cos(az), U: Math.sin(alt) };
+  const right = { E: Math.cos(az), N: -Math.sin(az), U: 0 };
+  const up = { E: -Math.sin(alt) * Math.sin(az), N: -Math.sin(alt) * Math.cos(az), U: Math.cos(alt) };
+  return { forward, right, up };
+}
+
+// Rectilinear (gnomonic) projection of an ENU direction onto the sensor plane, in mm from its centre
+// with x to the right and y up; null when the direction is outside MAX_OFF_AXIS_DEG
+export function projectToSensor(camera: CameraModel, p: { E: number; N: number; U: number }): { x: number; y: number } | null {
+  const { forward, right, up } = cameraBasis(camera);
+  const dot = (v: { E: number; N: number; U: number }) => p.E * v.E + p.N * v.N + p.U * v.U;
+  const length = Math.hypot(p.E, p.N, p.U);
+  const depth = dot(forward);
+  if (length === 0 || depth / length < Math.cos((MAX_OFF_AXIS_DEG * Math.PI) / 180)) return null;
+  return { x: (camera.focalLengthMm * dot(right)) / depth, y: (camera.focalLengthMm * dot(up)) / depth };
+}
+
+export function fieldOfViewDeg(camera: CameraModel) {
+  const angle = (sizeMm: number) => (2 * Math.atan(sizeMm / (2 * camera.focalLengthMm)) * 180) / Math.PI;
+  return { horizontal: angle(camera.sensorWidthMm), vertical: angle(camera.sensorHeightMm) };
+}
+
+export function isInFrame(camera: CameraModel, sensorPoint: { x: number; y: number }) {
+  return Math.abs(sensorPoint.x) <= camera.sensorWidthMm / 2 && Math.abs(sensorPoint.y) <= camera.sensorHeightMm / 2;
+}
@@ -1,4 +1,15 @@
-export type TimeMode = { kind: "fixedLocalTime"; hh: number; mm: number };
+import { utcOffsetHoursForLocalTime, utcOffsetMinutesAt } from './timeZones';
+
+// How the daily sampling time is interpreted:
+// - fixedLocalTime: civil clock time in the tzOffsetHours zone, or in timeZone (with DST) when given
+// - meanSolarTime: local mean time at the observer's longitude (no zone)
+// - utcTime: a fixed UT instant each day
+// - apparentSolarTime: sundial time; the hour angle is constant, so the figure collapses to a vertical line
+export type TimeMode =
+  | { kind: "fixedLocalTime"; hh: number; mm: number }
+  | { kind: "meanSolarTime"; hh: number; mm: number }
+  | { kind: "utcTime"; hh: number; mm: number }
+  | { kind: "apparentSolarTime"; hh: number; mm: number };
 
 export interface AnalemmaPoint {
   dateISO: string;
@@ -8,14 +19,120 @@ export interface AnalemmaPoint {
   E: number;  // East component (ENU coordinate)
   N: number;  // North component (ENU coordinate)
   U: number;  // Up component (ENU coordinate)
+  declinationDeg: number;  // Geocentric declination (the body's own equator for other planets)
+  hourAngleDeg: number;  // Local hour angle, -180..180; negative before the meridian transit
+  eotMinutes?: number;  // Equation of time at the sample (Sun only)
+  utcOffsetHours?: number;  // Offset in effect that day (only set when an IANA timeZone is used)
+  sol?: number;  // Sol number within the body's year (only set for non-Earth bodies)
+  solarLongitudeDeg?: number;  // Ls, the Sun's longitude from the body's vernal equinox (non-Earth bodies)
+  timestampMs?: number;  // UT instant of the sample (ms since the Unix epoch)
+  moonIllumination?: number;  // Illuminated fraction of the Moon's disk, 0-1 (lunar points only)
+  moonWaxing?: boolean;  // Lunar points only
+  timeOfDay?: string;  // "HH:MM" in the time mode's reference (only set when sampling.timesOfDay is used)
+  obstructed?: boolean;  // Visible, but below the horizon profile (only set when inputs.horizonProfile is given)
+}
+
+// One day of the figure as shared between charts: the civil date, or the sol on other bodies
+export type DaySelection = Pick<AnalemmaPoint, 'dateISO' | 'sol'>;
+
+export function isSameDay(a: DaySelection, b: DaySelection) {
+  return a.sol !== undefined || b.sol !== undefined ? a.sol === b.sol : a.dateISO === b.dateISO;
 }
 
 export interface EotPoint {
   dateISO: string;
   dayOfYear: number;
   eotMinutes: number;
-  obliquityComponent: number;  // Axial tilt contribution (minutes)
-  eccentricityComponent: number;  // Orbital eccentricity contribution (minutes)
+  obliquityComponent: number;  // Reduction to the equator, λ - α (minutes)
+  eccentricityComponent: number;  // Equation of center, L - λ (minutes); the two add up to eotMinutes
+  fitResidualComponent?: number;  // NOAA engine only: the fit's total minus the two geometric parts (minutes)
+  solarLongitudeDeg?: number;  // Ls (non-Earth bodies only; there dayOfYear is the sol number)
+}
+
+// Solar position engine:
+// - 'noaa': NOAA Fourier-series fit for declination and EoT (~1 min of time)
+// - 'meeus': Meeus apparent-position ephemeris with nutation, aberration and true obliquity (~0.01°)
+// - 'secular': Keplerian orbit with obliquity, eccentricity and perihelion drifting with the epoch
+//   (Laskar-type polynomials, usable roughly 8000 BC to AD 12000)
+export type EphemerisModel = 'noaa' | 'meeus' | 'secular';
+
+// Orbit and axis geometry that shape the analemma
+export interface OrbitalElements {
+  obliquityDeg: number;
+  eccentricity: number;
+  perihelionLongitudeDeg: number;  // Heliocentric longitude of perihelion from the vernal equinox of date (ϖ ≈ 103° today)
+}
+
+// Range of years over which the secular polynomials stay meaningful
+export const SECULAR_YEAR_RANGE: [number, number] = [-8000, 12000];
+
+// Atmospheric refraction applied to the geometric altitude.
+// 'bennett' is Bennett's apparent-altitude formula (inverted iteratively),
+// 'saemundsson' is Sæmundsson's true-to-apparent formula.
+export interface RefractionOptions {
+  model: 'bennett' | 'saemundsson';
+  pressureHPa?: number; // Defaults to 1010 hPa
+  temperatureC?: number; // Defaults to 10 °C
+}
+
+// A planet or moon whose analemma is computed from a fixed Keplerian orbit.
+// Times of day are in the body's own mean solar day (sol): hh:mm is 1/24 and 1/1440 of a sol.
+export interface PlanetaryBody {
+  name: string;
+  elements: OrbitalElements;
+  tropicalYearDays: number;  // Earth days from one northern spring equinox to the next
+  rotationPeriodHours: number;  // Sidereal rotation period in Earth hours
+  equinoxEpochJd: number;  // A UT Julian Day of northern spring equinox (Ls = 0), used to anchor the calendar
+}
+
+export const MARS: PlanetaryBody = {
+  name: 'Mars',
+  // Allison & McEwen (2000): Ls of perihelion 251°, i.e. heliocentric ϖ = 251° - 180°
+  elements: { obliquityDeg: 25.19, eccentricity: 0.0934, perihelionLongitudeDeg: 71.0 },
+  tropicalYearDays: 686.9726,
+  rotationPeriodHours: 24.6229,
+  equinoxEpochJd: 2435208.5, // 1955-04-11, start of Mars Year 1
+};
+
+// Earth as a Keplerian body, for like-for-like comparison with other planets
+export const EARTH_KEPLERIAN: PlanetaryBody = {
+  name: 'Earth (Keplerian)',
+  elements: { obliquityDeg: 23.4393, eccentricity: 0.016709, perihelionLongitudeDeg: 102.937 },
+  tropicalYearDays: 365.24219,
+  rotationPeriodHours: 23.93447,
+  equinoxEpochJd: 2451623.816, // 2000-03-20 07:35 UT
+};
+
+// Explicit sampling schedule in place of one point per day of the year.
+// Dates are civil dates in the time mode's reference (the local calendar for clock time).
+export interface SamplingOptions {
+  startDateISO: string;  // First date, inclusive ("YYYY-MM-DD" or the expanded "±YYYYYY-MM-DD")
+  endDateISO: string;  // Last date, inclusive
+  stepDays?: number;  // Whole days between samples; defaults to 1
+  timesOfDay?: Array<{ hh: number; mm: number }>;  // Replaces the time mode's hh:mm; one figure per time
+}
+
+// One vertex of a local horizon profile (terrain or buildings); altitudes are interpolated linearly in azimuth
+export interface HorizonPoint {
+  azimuthDeg: number;  // Clockwise from North
+  altitudeDeg: number;
+}
+
+// Upper bound on the points produced for one set of inputs; longer schedules are truncated
+export const MAX_SAMPLES = 20000;
+
+export const PLANETARY_BODIES: Record<string, PlanetaryBody> = {
+  mars: MARS,
+  earthKeplerian: EARTH_KEPLERIAN,
+};
+
+// Mean solar day length (Earth hours) from the sidereal rotation and the year (prograde rotation)
+export function solarDayHours(body: PlanetaryBody) {
+  return 1 / (1 / body.rotationPeriodHours - 1 / (body.tropicalYearDays * 24));
+}
+
+export function solsPerYear(body: PlanetaryBody) {
+  return (body.tropicalYearDays * 24) / solarDayHours(body);
 }
 
 export interface AnalemmaInputs {
@@ -23,12 +140,25 @@ export interface AnalemmaInputs {
   longitudeDeg: number;
   timeMode: TimeMode;
   tzOffsetHours: number; // Time zone offset from UTC (e.g., +7 for Bangkok)
-  year?: number;
+  timeZone?: string; // IANA zone id; when set, fixedLocalTime uses the per-day offset (DST-aware)
+  year?: number; // Astronomical numbering (0 = 1 BC, -2999 = 3000 BC); defaults to the current year
+  ephemeris?: EphemerisModel; // Defaults to 'noaa'
+  refraction?: RefractionOptions; // Omit for geometric altitudes
+  observerElevationM?: number; // Height above the surrounding terrain/sea; lowers the horizon by the dip angle
+  body?: PlanetaryBody; // Omit for Earth; other bodies ignore ephemeris, zones and Earth's atmosphere
+  sampling?: SamplingOptions; // Earth only; omit for one point per day of `year`
+  target?: 'sun' | 'moon'; // Defaults to 'sun'; 'moon' samples once per lunar day (Earth only)
+  horizonProfile?: HorizonPoint[]; // Earth only; flags visible points behind it as obstructed
 }
 
+// Mean synodic month and the mean lunar day (interval between successive transits of the Moon)
+export const SYNODIC_MONTH_DAYS = 29.530589;
+export const LUNAR_DAY_DAYS = 1 / (1 - 1 / SYNODIC_MONTH_DAYS);
+
 const deg2rad = (d: number) => (d * Math.PI) / 180;
 const rad2deg = (r: number) => (r * 180) / Math.PI;
 const normalizeDeg = (d: number) => ((d % 360) + 360) % 360;
+const signedDeg = (d: number) => normalizeDeg(d + 180) - 180;
 
  const _debugPrintedKeys = new Set<string>();
  function _debugEnabled() {
@@ -58,24 +188,852 @@ function daysInYear(y: number) {
   return isLeapYear(y) ? 366 : 365;
 }
 
+// Milliseconds since the Unix epoch for 00:00 UT on the given day of year (proleptic Gregorian).
+// Date.UTC maps years 0-99 to 1900-1999, so the full year is set explicitly.
+function utcMsAtStartOfDay(year: number, day: number) {
+  const date = new Date(0);
+  date.setUTCFullYear(year, 0, day);
+  return date.getTime();
+}
+
+// Julian Day for 00:00 UT on the given day of year
+function julianDayAtStartOfDay(year: number, day: number) {
+  return utcMsAtStartOfDay(year, day) / 86400000 + 2440587.5;
+}
+
+// Approximate ΔT = TT - UT in seconds (Espenak & Meeus polynomial near present, long-term parabola otherwise)
+function deltaTSeconds(year: number) {
+  if (year >= 2005 && year < 2050) {
+    const t = year - 2000;
+    return 62.92 + 0.32217 * t + 0.005589 * t * t;
+  }
+  const u = (year - 1820) / 100;
+  return -20 + 32 * u * u;
+}
+
+// "YYYY-MM-DD", or the ISO 8601 expanded form "±YYYYYY-MM-DD" outside years 0-9999
 function dateFromDayOfYear(year: number, day: number) {
-  const date = new Date(Date.UTC(year, 0, 1));
-  date.setUTCDate(day);
-  const yyyy = date.getUTCFullYear();
+  return dateISOFromUtcMs(utcMsAtStartOfDay(year, day));
+}
+
+function dateISOFromUtcMs(ms: number) {
+  const date = new Date(ms);
+  const y = date.getUTCFullYear();
+  const yyyy = y >= 0 && y <= 9999
+    ? String(y).padStart(4, "0")
+    : `${y < 0 ? "-" : "+"}${String(Math.abs(y)).padStart(6, "0")}`;
   const mm = String(date.getUTCMonth() + 1).padStart(2, "0");
   const dd = String(date.getUTCDate()).padStart(2, "0");
   return `${yyyy}-${mm}-${dd}`;
 }
 
-export function computeAnalemmaPoints(inputs: AnalemmaInputs): AnalemmaPoint[] {
+// UT milliseconds at a Julian Day
+function utcMsFromJulianDay(jd: number) {
+  return Math.round((jd - 2440587.5) * 86400000);
+}
+
+// dateISO for a calendar date (month is 1-based)
+export function formatDateISO(year: number, month: number, day: number) {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return dateISOFromUtcMs(date.getTime());
+}
+
+// Equinox and solstice dates of a year on the observer's clock (see findSeasonEvents)
+export function seasonDates(year: number, zone?: ObserverZone): Array<{ dateISO: string; label: string }> {
+  return findSeasonEvents(year, zone)
+    .filter(e => e.kind !== 'perihelion' && e.kind !== 'aphelion')
+    .map(({ dateISO, label }) => ({ dateISO, label }));
+}
+
+// Split a dateISO produced above into numeric parts (month is 1-based)
+export function parseDateISO(dateISO: string): { year: number; month: number; day: number } {
+  return {
+    year: Number.parseInt(dateISO.slice(0, -6), 10),
+    month: Number.parseInt(dateISO.slice(-5, -3), 10),
+    day: Number.parseInt(dateISO.slice(-2), 10),
+  };
+}
+
+// Civil days to sample: every day of `year`, or the requested range every stepDays
+function samplingDays(sampling: SamplingOptions | undefined, year: number): Array<{ year: number; day: number }> {
+  if (!sampling) return Array.from({ length: daysInYear(year) }, (_, i) => ({ year, day: i + 1 }));
+
+  const msForDate = (dateISO: string) => {
+    const { year, month, day } = parseDateISO(dateISO);
+    const date = new Date(0);
+    date.setUTCFullYear(year, month - 1, day);
+    return date.getTime();
+  };
+  const startMs = msForDate(sampling.startDateISO);
+  const endMs = msForDate(sampling.endDateISO);
+  if (!Number.isFinite(startMs) || !Number.isFinite(endMs)) return [];
+
+  const stepMs = Math.max(1, Math.round(sampling.stepDays ?? 1)) * 86400000;
+  const days: Array<{ year: number; day: number }> = [];
+  for (let ms = startMs; ms <= endMs && days.length < MAX_SAMPLES; ms += stepMs) {
+    const y = new Date(ms).getUTCFullYear();
+    days.push({ year: y, day: Math.round((ms - utcMsAtStartOfDay(y, 1)) / 86400000) + 1 });
+  }
+  return days;
+}
+
+// Horizon profile from text: one azimuth/altitude pair per line, separated by commas, semicolons or whitespace
+// (CSV, or a PeakFinder-style export). Lines that do not start with a number (headers, comments) are skipped,
+// as are any further columns. Throws on out-of-range values or fewer than two pairs.
+export function parseHorizonProfile(text: string): HorizonPoint[] {
+  const profile: HorizonPoint[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    const fields = line.trim().split(/[\s,;]+/);
+    if (!/^[-+]?\.?\d/.test(fields[0] ?? '')) return;
+    const azimuthDeg = Number(fields[0]);
+    const altitudeDeg = Number(fields[1]);
+    if (!Number.isFinite(azimuthDeg) || !Number.isFinite(altitudeDeg)) {
+      throw new Error(`Line ${i + 1}: expected an azimuth and an altitude`);
+    }
+    if (altitudeDeg < -90 || altitudeDeg > 90) {
+      throw new Error(`Line ${i + 1}: altitude ${altitudeDeg}° is out of range`);
+    }
+    profile.push({ azimuthDeg: normalizeDeg(azimuthDeg), altitudeDeg });
+  });
+  if (profile.length < 2) throw new Error('A horizon profile needs at least two azimuth/altitude pairs');
+  return profile.sort((a, b) => a.azimuthDeg - b.azimuthDeg);
+}
+
+// Profile altitude at an azimuth, wrapping from the last vertex back to the first through North
+export function horizonAltitudeAt(profile: HorizonPoint[], azimuthDeg: number) {
+  const az = normalizeDeg(azimuthDeg);
+  const next = profile.findIndex(p => p.azimuthDeg >= az);
+  const b = next === -1 ? profile[0] : profile[next];
+  const a = next <= 0 ? profile[profile.length - 1] : profile[next - 1];
+  const span = normalizeDeg(b.azimuthDeg - a.azimuthDeg) || 360;
+  const t = normalizeDeg(az - a.azimuthDeg) / span;
+  return a.altitudeDeg + (b.altitudeDeg - a.altitudeDeg) * t;
+}
+
+// A sample on the other side of the horizon from the one before it in the same time-of-day series
+export interface HorizonCrossing {
+  point: AnalemmaPoint;  // First sample on the new side
+  rising: boolean;  // True when the body comes up above the horizon
+}
+
+export function findHorizonCrossings(points: AnalemmaPoint[]): HorizonCrossing[] {
+  const crossings: HorizonCrossing[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const p = points[i];
+    if (p.timeOfDay !== prev.timeOfDay || p.visible === prev.visible) continue;
+    crossings.push({ point: p, rising: p.visible });
+  }
+  return crossings;
+}
+
+function markObstructed(points: AnalemmaPoint[], profile: HorizonPoint[] | undefined) {
+  if (!profile) return;
+  for (const p of points) {
+    p.obstructed = p.visible && p.altitudeDeg < horizonAltitudeAt(profile, p.azimuthDeg);
+  }
+}
+
+function timeModeMinutes(timeMode: TimeMode) {
+  const hh = Math.min(23, Math.max(0, timeMode.hh));
+  const mm = Math.min(59, Math.max(0, timeMode.mm));
+  return hh * 60 + mm;
+}
+
+// Offset (minutes) of the time mode's clock from UT at an instant, giving the calendar date of a sample.
+// Solar time modes use the longitude's mean time, so the date can differ from the zone's near midnight.
+function timeModeOffsetMinutes(inputs: Pick<AnalemmaInputs, 'timeMode' | 'timeZone' | 'tzOffsetHours' | 'longitudeDeg'>, ms: number) {
+  switch (inputs.timeMode.kind) {
+    case 'fixedLocalTime':
+      return inputs.timeZone ? utcOffsetMinutesAt(inputs.timeZone, ms) : 60 * inputs.tzOffsetHours;
+    case 'utcTime':
+      return 0;
+    default:
+      return 4 * inputs.longitudeDeg;
+  }
+}
+
+// UT minutes after midnight for the sample, used to place the ephemeris instant.
+// Apparent solar time needs the EoT of the day, so it is refined by the caller.
+function utcMinutesForTimeMode(timeMode: TimeMode, longitudeDeg: number, tzOffsetHours: number, eotMin = 0) {
+  const minutes = timeModeMinutes(timeMode);
+  switch (timeMode.kind) {
+    case 'fixedLocalTime':
+      return minutes - 60 * tzOffsetHours;
+    case 'meanSolarTime':
+      return minutes - 4 * longitudeDeg;
+    case 'utcTime':
+      return minutes;
+    case 'apparentSolarTime':
+      return minutes - eotMin - 4 * longitudeDeg;
+  }
+}
+
+// True Solar Time (minutes, normalized to [0, 1440)) for the sample.
+// NOAA convention: TST = LCT + EoT + 4 * (longitude - LSTM)
+function trueSolarTimeMinutes(timeMode: TimeMode, eotMin: number, longitudeDeg: number, tzOffsetHours: number) {
+  const minutes = timeModeMinutes(timeMode);
+  let tst: number;
+  switch (timeMode.kind) {
+    case 'fixedLocalTime': {
+      const LSTM = 15 * tzOffsetHours; // Local Standard Time Meridian (degrees)
+      tst = minutes + eotMin + 4 * (longitudeDeg - LSTM);
+      break;
+    }
+    case 'meanSolarTime':
+      tst = minutes + eotMin;
+      break;
+    case 'utcTime':
+      tst = minutes + eotMin + 4 * longitudeDeg;
+      break;
+    case 'apparentSolarTime':
+      tst = minutes;
+      break;
+  }
+  return ((tst % 1440) + 1440) % 1440;
+}
+
+// Unit vector towards the Sun in local East-North-Up coordinates from latitude, declination and
+// hour angle (radians; H is positive west of the meridian, so the afternoon Sun has E < 0).
+// Unlike azimuth, this stays well defined at the zenith.
+function enuFromHourAngle(phi: number, decl: number, H: number) {
+  return {
+    E: -Math.cos(decl) * Math.sin(H),
+    N: Math.cos(phi) * Math.sin(decl) - Math.sin(phi) * Math.cos(decl) * Math.cos(H),
+    U: Math.sin(phi) * Math.sin(decl) + Math.cos(phi) * Math.cos(decl) * Math.cos(H),
+  };
+}
+
+// Move an ENU direction to a corrected altitude at the same azimuth
+function withAltitude(enu: { E: number; N: number; U: number }, fromAltitudeDeg: number, toAltitudeDeg: number) {
+  const horizScale = Math.cos(deg2rad(toAltitudeDeg)) / Math.max(1e-9, Math.cos(deg2rad(fromAltitudeDeg)));
+  return { E: enu.E * horizScale, N: enu.N * horizScale, U: Math.sin(deg2rad(toAltitudeDeg)) };
+}
+
+// Refraction (degrees) to add to a geometric altitude (degrees).
+// Below -1° the formulas diverge, so the value at -1° is used.
+export function refractionDeg(geometricAltitudeDeg: number, options: RefractionOptions) {
+  const h = Math.max(-1, geometricAltitudeDeg);
+  const pressure = options.pressureHPa ?? 1010;
+  const temperature = options.temperatureC ?? 10;
+  const scale = (pressure / 1010) * (283 / (273 + temperature));
+
+  if (options.model === 'saemundsson') {
+    const arcmin = 1.02 / Math.tan(deg2rad(h + 10.3 / (h + 5.11)));
+    return (scale * arcmin) / 60;
+  }
+
+  // Bennett gives refraction as a function of apparent altitude; iterate h_app = h + R(h_app)
+  const bennett = (hApp: number) => 1 / Math.tan(deg2rad(hApp + 7.31 / (hApp + 4.4))) / 60;
+  let hApp = h;
+  for (let i = 0; i < 4; i++) {
+    hApp = h + scale * bennett(Math.max(-1, hApp));
+  }
+  return hApp - h;
+}
+
+// Dip of the sea/terrain horizon (degrees) for an observer elevation in metres.
+// With refraction the horizon is raised slightly (1.76' vs 1.93' per √m).
+export function horizonDipDeg(observerElevationM: number, withRefraction: boolean) {
+  if (!(observerElevationM > 0)) return 0;
+  return ((withRefraction ? 1.76 : 1.93) * Math.sqrt(observerElevationM)) / 60;
+}
+
+// UTC offset for the given day: resolved from the IANA zone for civil clock time, else the fixed offset
+function tzOffsetHoursForDay(
+  inputs: { timeMode: TimeMode; tzOffsetHours: number; timeZone?: string },
+  year: number,
+  day: number
+) {
+  if (inputs.timeZone && inputs.timeMode.kind === 'fixedLocalTime') {
+    return utcOffsetHoursForLocalTime(inputs.timeZone, year, day, timeModeMinutes(inputs.timeMode));
+  }
+  return inputs.tzOffsetHours;
+}
+
+// Declination and Equation of Time for one sample. EoT = L - α (mean longitude minus right ascension)
+// splits exactly at the true longitude λ: L - λ from Kepler's equation (eccentricity) plus λ - α from
+// projecting the ecliptic onto the equator (obliquity).
+interface SunSample {
+  declRad: number;
+  eotMinutes: number;
+  obliquityComponent: number;  // minutes
+  eccentricityComponent: number;  // minutes
+  fitResidualComponent?: number;  // minutes; NOAA engine only, the rest of eotMinutes
+  apparentLongitudeDeg?: number;  // Meeus engine only
+  distanceAu?: number;  // Meeus engine only; Keplerian radius vector (no lunar perturbation)
+}
+
+// NOAA fractional-year angle (radians) for a civil day, taken at mid-day. Every caller uses this one
+// definition, so the fit gives the same declination and EoT for a date whatever the sample's time of day.
+function noaaFractionalYear(year: number, day: number) {
+  return (2 * Math.PI / daysInYear(year)) * (day - 1 + 0.5);
+}
+
+// NOAA Fourier-series approximation, evaluated at fractional-year angle gamma (radians).
+// The fit has no longitudes, so both geometric parts come from the secular Kepler orbit at jdUT;
+// what the fit's total differs from their sum by is kept as a separate residual.
+function sunSampleNoaa(gamma: number, jdUT: number): SunSample {
+  const declRad =
+    0.006918 -
+    0.399912 * Math.cos(gamma) +
+    0.070257 * Math.sin(gamma) -
+    0.006758 * Math.cos(2 * gamma) +
+    0.000907 * Math.sin(2 * gamma) -
+    0.002697 * Math.cos(3 * gamma) +
+    0.00148 * Math.sin(3 * gamma);
+
+  const eotMinutes = 229.18 * (
+    0.000075 +
+    0.001868 * Math.cos(gamma) -
+    0.032077 * Math.sin(gamma) -
+    0.014615 * Math.cos(2 * gamma) -
+    0.040849 * Math.sin(2 * gamma)
+  );
+  const { obliquityComponent, eccentricityComponent } = sunSampleSecular(jdUT);
+
+  return {
+    declRad,
+    eotMinutes,
+    obliquityComponent,
+    eccentricityComponent,
+    fitResidualComponent: eotMinutes - obliquityComponent - eccentricityComponent
+  };
+}
+
+// Meeus, Astronomical Algorithms (2nd ed.), ch. 22, 25 and 28, evaluated at a UT Julian Day.
+// Apparent longitude includes nutation and aberration; declination uses the true obliquity.
+function sunSampleMeeus(jdUT: number): SunSample {
+  const year = 2000 + (jdUT - 2451545.0) / 365.25;
+  const jde = jdUT + deltaTSeconds(year) / 86400;
+  const T = (jde - 2451545.0) / 36525;
+
+  // Geometric mean longitude, mean anomaly and eccentricity
+  const L0 = normalizeDeg(280.46646 + 36000.76983 * T + 0.0003032 * T * T);
+  const M = deg2rad(357.52911 + 35999.05029 * T - 0.0001537 * T * T);
+  const e = 0.016708634 - 0.000042037 * T - 0.0000001267 * T * T;
+
+  // Equation of center, true longitude and radius vector
+  const C =
+    (1.914602 - 0.004817 * T - 0.000014 * T * T) * Math.sin(M) +
+    (0.019993 - 0.000101 * T) * Math.sin(2 * M) +
+    0.000289 * Math.sin(3 * M);
+  const trueLongitude = L0 + C;
+  const nu = M + deg2rad(C);
+  const R = (1.000001018 * (1 - e * e)) / (1 + e * Math.cos(nu));
+
+  // Nutation in longitude and obliquity (arcseconds), main terms
+  const omega = deg2rad(125.04452 - 1934.136261 * T + 0.0020708 * T * T + (T * T * T) / 450000);
+  const Lsun = deg2rad(280.4665 + 36000.7698 * T);
+  const Lmoon = deg2rad(218.3165 + 481267.8813 * T);
+  const dPsi =
+    -17.2 * Math.sin(omega) - 1.32 * Math.sin(2 * Lsun) - 0.23 * Math.sin(2 * Lmoon) + 0.21 * Math.sin(2 * omega);
+  const dEps =
+    9.2 * Math.cos(omega) + 0.57 * Math.cos(2 * Lsun) + 0.1 * Math.cos(2 * Lmoon) - 0.09 * Math.cos(2 * omega);
+
+  // Mean and true obliquity of the ecliptic
+  const eps0 = 23 + 26 / 60 + (21.448 - 46.815 * T - 0.00059 * T * T + 0.001813 * T * T * T) / 3600;
+  const eps = deg2rad(eps0 + dEps / 3600);
+
+  // Apparent longitude: nutation plus annual aberration
+  const aberration = -20.4898 / R;
+  const lambda = deg2rad(trueLongitude + (dPsi + aberration) / 3600);
+
+  const alpha = normalizeDeg(rad2deg(Math.atan2(Math.cos(eps) * Math.sin(lambda), Math.cos(lambda))));
+  const declRad = Math.asin(Math.sin(eps) * Math.sin(lambda));
+
+  // EoT (Meeus 28.3), wrapped to [-180°, 180°) before converting to minutes
+  const wrap = (d: number) => ((((d + 180) % 360) + 360) % 360) - 180;
+  const eotMinutes = 4 * wrap(L0 - 0.0057183 - alpha + (dPsi / 3600) * Math.cos(eps));
+
+  // Eccentricity part is the lag of the true Sun behind the mean Sun (-C);
+  // the remainder is the reduction from ecliptic longitude to right ascension.
+  const eccentricityComponent = -4 * C;
+  const obliquityComponent = eotMinutes - eccentricityComponent;
+
+  return {
+    declRad,
+    eotMinutes,
+    obliquityComponent,
+    eccentricityComponent,
+    apparentLongitudeDeg: normalizeDeg(rad2deg(lambda)),
+    distanceAu: R,
+  };
+}
+
+// Secular (epoch-of-date) elements for a Julian century count T from J2000.0 (TT).
+// Obliquity: Laskar (1986), valid for |T| < 100. Eccentricity and perihelion: Simon et al. (1994)
+// mean elements referred to the mean equinox of date, so general precession is included in ϖ.
+export function secularOrbitalElements(T: number): OrbitalElements {
+  const U = T / 100;
+  const obliquityArcsec =
+    84381.448 -
+    4680.93 * U -
+    1.55 * U ** 2 +
+    1999.25 * U ** 3 -
+    51.38 * U ** 4 -
+    249.67 * U ** 5 -
+    39.05 * U ** 6 +
+    7.12 * U ** 7 +
+    27.87 * U ** 8 +
+    5.79 * U ** 9 +
+    2.45 * U ** 10;
+  return {
+    obliquityDeg: obliquityArcsec / 3600,
+    eccentricity: 0.01670862 - 0.000042037 * T - 0.0000001236 * T * T + 0.00000000004 * T * T * T,
+    perihelionLongitudeDeg: normalizeDeg(102.93735 + 1.71946 * T + 0.00046 * T * T),
+  };
+}
+
+// Solve Kepler's equation M = E - e sin E (radians) by Newton iteration
+function solveKepler(M: number, e: number) {
+  let E = e < 0.8 ? M : Math.PI;
+  for (let i = 0; i < 30; i++) {
+    const dE = (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E));
+    E -= dE;
+    if (Math.abs(dE) < 1e-12) break;
+  }
+  return E;
+}
+
+// Sun position from a Keplerian orbit given the Sun's geocentric mean longitude (degrees).
+// EoT is mean longitude minus right ascension, split exactly into the equation of center
+// (eccentricity) and the reduction from ecliptic to equator (obliquity).
+function sunSampleKepler(elements: OrbitalElements, meanLongitudeDeg: number): SunSample {
+  const eps = deg2rad(elements.obliquityDeg);
+  const e = elements.eccentricity;
+  // The Sun's apparent orbit is Earth's orbit seen from the other side: perigee at ϖ + 180°
+  const perigeeDeg = elements.perihelionLongitudeDeg + 180;
+  const M = deg2rad(normalizeDeg(meanLongitudeDeg - perigeeDeg));
+  const Ecc = solveKepler(M, e);
+  const nu = 2 * Math.atan2(Math.sqrt(1 + e) * Math.sin(Ecc / 2), Math.sqrt(1 - e) * Math.cos(Ecc / 2));
+  const lambda = deg2rad(perigeeDeg) + nu;
+
+  const alpha = Math.atan2(Math.cos(eps) * Math.sin(lambda), Math.cos(lambda));
+  const declRad = Math.asin(Math.sin(eps) * Math.sin(lambda));
+
+  const wrap = (r: number) => Math.atan2(Math.sin(r), Math.cos(r));
+  const eccentricityComponent = 4 * rad2deg(wrap(M - nu));
+  const obliquityComponent = 4 * rad2deg(wrap(lambda - alpha));
+
+  return {
+    declRad,
+    eotMinutes: eccentricityComponent + obliquityComponent,
+    obliquityComponent,
+    eccentricityComponent
+  };
+}
+
+// Julian centuries of TT from J2000.0 for a UT Julian Day
+function julianCenturiesTT(jdUT: number) {
+  const year = 2000 + (jdUT - 2451545.0) / 365.25;
+  return (jdUT + deltaTSeconds(year) / 86400 - 2451545.0) / 36525;
+}
+
+// Sun's geometric mean longitude of date (degrees) at a UT Julian Day
+function meanLongitudeDeg(jdUT: number) {
+  const T = julianCenturiesTT(jdUT);
+  return 280.46646 + 36000.76983 * T + 0.0003032 * T * T;
+}
+
+// Secular engine at a UT Julian Day: mean longitude of date plus Keplerian motion on the drifting orbit
+function sunSampleSecular(jdUT: number): SunSample {
+  return sunSampleKepler(secularOrbitalElements(julianCenturiesTT(jdUT)), meanLongitudeDeg(jdUT));
+}
+
+// Dispatch to the selected engine; gamma is only used by the NOAA fit
+function sunSample(ephemeris: EphemerisModel, jdUT: number, gamma: number): SunSample {
+  switch (ephemeris) {
+    case 'meeus':
+      return sunSampleMeeus(jdUT);
+    case 'secular':
+      return sunSampleSecular(jdUT);
+    default:
+      return sunSampleNoaa(gamma, jdUT);
+  }
+}
+
+// Mean longitude (degrees) at which the true Sun crosses the body's vernal equinox (λ = 0)
+function equinoxMeanLongitudeDeg(elements: OrbitalElements) {
+  let L = 0;
+  for (let i = 0; i < 20; i++) {
+    const sun = sunSampleKepler(elements, L);
+    // Eccentricity component is 4 × (L - λ) in minutes; step L so that λ reaches 0
+    L = normalizeDeg(sun.eccentricityComponent / 4 + 180) - 180;
+  }
+  return L;
+}
+
+// Samples of one body year: the year in progress at the start of the given Earth year,
+// one sample per sol at the given prime-meridian mean solar time (minutes of a 1440-minute sol)
+function bodyYearSamples(body: PlanetaryBody, elements: OrbitalElements, year: number, primeMeridianMinutes: number) {
+  const solDays = solarDayHours(body) / 24;
+  const nSols = Math.floor(solsPerYear(body));
+  const yearStartJd = julianDayAtStartOfDay(year, 1);
+  const yearsSinceEpoch = Math.floor((yearStartJd - body.equinoxEpochJd) / body.tropicalYearDays);
+  const equinoxJd = body.equinoxEpochJd + yearsSinceEpoch * body.tropicalYearDays;
+  const L0 = equinoxMeanLongitudeDeg(elements);
+
+  const samples: Array<{ sol: number; jdUT: number; sun: SunSample; solarLongitudeDeg: number }> = [];
+  for (let k = 0; k < nSols; k++) {
+    const elapsedSols = k + primeMeridianMinutes / 1440;
+    const meanLongitudeDeg = L0 + (360 * elapsedSols) / solsPerYear(body);
+    const sun = sunSampleKepler(elements, meanLongitudeDeg);
+    // λ = L - (L - λ), with L - λ recovered from the eccentricity component
+    const solarLongitudeDeg = normalizeDeg(meanLongitudeDeg - sun.eccentricityComponent / 4);
+    samples.push({ sol: k, jdUT: equinoxJd + elapsedSols * solDays, sun, solarLongitudeDeg });
+  }
+  return samples;
+}
+
+// Time modes on other bodies: there are no zones, so civil time is read as local mean solar time
+function bodyTimeMode(timeMode: TimeMode): TimeMode {
+  return timeMode.kind === 'fixedLocalTime' ? { ...timeMode, kind: 'meanSolarTime' } : timeMode;
+}
+
+function computeBodyAnalemmaPoints(
+  inputs: AnalemmaInputs,
+  body: PlanetaryBody,
+  components: EotComponentSelection = { obliquity: true, eccentricity: true }
+): AnalemmaPoint[] {
   const year = inputs.year ?? new Date().getFullYear();
-  const nDays = daysInYear(year);
   const phi = deg2rad(inputs.latitudeDeg);
+  const timeMode = bodyTimeMode(inputs.timeMode);
+  const primeMeridianMinutes = utcMinutesForTimeMode(timeMode, inputs.longitudeDeg, 0);
+
+  return bodyYearSamples(body, body.elements, year, primeMeridianMinutes).map(({ sol, jdUT, sun: fullSun, solarLongitudeDeg }) => {
+    const sun = selectEotComponents(fullSun, components);
+    const decl = sun.declRad;
+    const trueSolarTimeMin = trueSolarTimeMinutes(timeMode, sun.eotMinutes, inputs.longitudeDeg, 0);
+    const H = deg2rad(trueSolarTimeMin / 4 - 180);
+
+    const { E, N, U } = enuFromHourAngle(phi, decl, H);
+    const altitudeDeg = rad2deg(Math.asin(Math.max(-1, Math.min(1, U))));
+    const azimuthDeg = normalizeDeg(rad2deg(Math.atan2(E, N)));
+
+    return {
+      dateISO: dateISOFromUtcMs(utcMsFromJulianDay(jdUT)),
+      azimuthDeg,
+      altitudeDeg,
+      visible: altitudeDeg > 0,
+      E,
+      N,
+      U,
+      declinationDeg: rad2deg(decl),
+      hourAngleDeg: signedDeg(rad2deg(H)),
+      eotMinutes: sun.eotMinutes,
+      sol,
+      solarLongitudeDeg,
+      timestampMs: utcMsFromJulianDay(jdUT),
+    };
+  });
+}
+
+// Periodic terms of the Moon's longitude and distance (Meeus ch. 47, table 47.A, largest terms):
+// multiples of D, M, M', F, then Σl (1e-6 degree) and Σr (1e-3 km)
+const MOON_LR_TERMS: Array<[number, number, number, number, number, number]> = [
+  [0, 0, 1, 0, 6288774, -20905355],
+  [2, 0, -1, 0, 1274027, -3699111],
+  [2, 0, 0, 0, 658314, -2955968],
+  [0, 0, 2, 0, 213618, -569925],
+  [0, 1, 0, 0, -185116, 48888],
+  [0, 0, 0, 2, -114332, -3149],
+  [2, 0, -2, 0, 58793, 246158],
+  [2, -1, -1, 0, 57066, -152138],
+  [2, 0, 1, 0, 53322, -170733],
+  [2, -1, 0, 0, 45758, -204586],
+  [0, 1, -1, 0, -40923, -129620],
+  [1, 0, 0, 0, -34720, 108743],
+  [0, 1, 1, 0, -30383, 104755],
+  [2, 0, 0, -2, 15327, 10321],
+  [0, 0, 1, 2, -12528, 0],
+  [0, 0, 1, -2, 10980, 79661],
+  [4, 0, -1, 0, 10675, -34782],
+  [0, 0, 3, 0, 10034, -23210],
+  [4, 0, -2, 0, 8548, -21636],
+  [2, 1, -1, 0, -7888, 24208],
+  [2, 1, 0, 0, -6766, 30824],
+  [1, 0, -1, 0, -5163, -8379],
+  [1, 1, 0, 0, 4987, -16675],
+  [2, -1, 1, 0, 4036, -12831],
+];
+
+// Periodic terms of the Moon's latitude (table 47.B, largest terms): D, M, M', F, Σb (1e-6 degree)
+const MOON_B_TERMS: Array<[number, number, number, number, number]> = [
+  [0, 0, 0, 1, 5128122],
+  [0, 0, 1, 1, 280602],
+  [0, 0, 1, -1, 277693],
+  [2, 0, 0, -1, 173237],
+  [2, 0, -1, 1, 55413],
+  [2, 0, -1, -1, 46271],
+  [2, 0, 0, 1, 32573],
+  [0, 0, 2, 1, 17198],
+  [2, 0, 1, -1, 9266],
+  [0, 0, 2, -1, 8822],
+  [2, -1, 0, -1, 8216],
+  [2, 0, -2, -1, 4324],
+  [2, 0, 1, 1, 4200],
+];
 
-  // Fixed local clock time (civil time) each day
-  const hh = Math.min(23, Math.max(0, inputs.timeMode.hh));
-  const mm = Math.min(59, Math.max(0, inputs.timeMode.mm));
-  const localClockMinutes = hh * 60 + mm;
+interface MoonSample {
+  raRad: number;
+  declRad: number;
+  longitudeDeg: number;  // Geocentric ecliptic longitude
+  distanceKm: number;
+  illumination: number;  // Illuminated fraction, 0-1
+  waxing: boolean;
+}
+
+// Geocentric Moon position (Meeus ch. 47, truncated to the largest terms: ~0.05° in longitude)
+// and illuminated fraction from the phase angle (Meeus 48.4), at a UT Julian Day
+function moonSample(jdUT: number): MoonSample {
+  const T = julianCenturiesTT(jdUT);
+  const Lp = 218.3164477 + 481267.88123421 * T;
+  const D = 297.8501921 + 445267.1114034 * T;
+  const M = 357.5291092 + 35999.0502909 * T;
+  const Mp = 134.9633964 + 477198.8675055 * T;
+  const F = 93.272095 + 483202.0175233 * T;
+  const E = 1 - 0.002516 * T;
+  const A1 = 119.75 + 131.849 * T;
+  const A2 = 53.09 + 479264.29 * T;
+  const A3 = 313.45 + 481266.484 * T;
+
+  // Terms with the Sun's mean anomaly are scaled by E for the decreasing eccentricity of Earth's orbit
+  const argument = (d: number, m: number, mp: number, f: number) => deg2rad(d * D + m * M + mp * Mp + f * F);
+  let sumL = 0;
+  let sumR = 0;
+  for (const [d, m, mp, f, l, r] of MOON_LR_TERMS) {
+    const scale = E ** Math.abs(m);
+    sumL += l * scale * Math.sin(argument(d, m, mp, f));
+    sumR += r * scale * Math.cos(argument(d, m, mp, f));
+  }
+  let sumB = 0;
+  for (const [d, m, mp, f, b] of MOON_B_TERMS) {
+    sumB += b * E ** Math.abs(m) * Math.sin(argument(d, m, mp, f));
+  }
+  sumL += 3958 * Math.sin(deg2rad(A1)) + 1962 * Math.sin(deg2rad(Lp - F)) + 318 * Math.sin(deg2rad(A2));
+  sumB +=
+    -2235 * Math.sin(deg2rad(Lp)) +
+    382 * Math.sin(deg2rad(A3)) +
+    175 * Math.sin(deg2rad(A1 - F)) +
+    175 * Math.sin(deg2rad(A1 + F)) +
+    127 * Math.sin(deg2rad(Lp - Mp)) -
+    115 * Math.sin(deg2rad(Lp + Mp));
+
+  const lambda = deg2rad(Lp + sumL / 1e6);
+  const beta = deg2rad(sumB / 1e6);
+  const eps = deg2rad(secularOrbitalElements(T).obliquityDeg);
+  const raRad = Math.atan2(Math.sin(lambda) * Math.cos(eps) - Math.tan(beta) * Math.sin(eps), Math.cos(lambda));
+  const declRad = Math.asin(Math.sin(beta) * Math.cos(eps) + Math.cos(beta) * Math.sin(eps) * Math.sin(lambda));
+
+  const phaseAngleDeg =
+    180 -
+    D -
+    6.289 * Math.sin(deg2rad(Mp)) +
+    2.1 * Math.sin(deg2rad(M)) -
+    1.274 * Math.sin(deg2rad(2 * D - Mp)) -
+    0.658 * Math.sin(deg2rad(2 * D)) -
+    0.214 * Math.sin(deg2rad(2 * Mp)) -
+    0.11 * Math.sin(deg2rad(D));
+
+  return {
+    raRad,
+    declRad,
+    longitudeDeg: normalizeDeg(rad2deg(lambda)),
+    distanceKm: 385000.56 + sumR / 1000,
+    illumination: (1 + Math.cos(deg2rad(phaseAngleDeg))) / 2,
+    waxing: normalizeDeg(D) < 180,
+  };
+}
+
+export type SeasonEventKind = 'marchEquinox' | 'juneSolstice' | 'septemberEquinox' | 'decemberSolstice' | 'perihelion' | 'aphelion';
+
+export interface SeasonEvent {
+  kind: SeasonEventKind;
+  label: string;  // "March equinox", ..., "Perihelion", "Aphelion"
+  utcMs: number;
+  dateISO: string;  // Date on the observer's clock (UT without a zone)
+  localTime: string;  // "HH:MM" on the observer's clock
+}
+
+// Clock used to express event instants: the IANA zone (with DST) when given, otherwise the fixed offset
+export type ObserverZone = Pick<AnalemmaInputs, 'timeZone' | 'tzOffsetHours'>;
+
+// Apparent solar longitude of each equinox and solstice, with the day of year it falls near
+const SOLAR_LONGITUDE_EVENTS: Array<{ kind: SeasonEventKind; label: string; longitudeDeg: number; dayOfYear: number }> = [
+  { kind: 'marchEquinox', label: 'March equinox', longitudeDeg: 0, dayOfYear: 80 },
+  { kind: 'juneSolstice', label: 'June solstice', longitudeDeg: 90, dayOfYear: 172 },
+  { kind: 'septemberEquinox', label: 'September equinox', longitudeDeg: 180, dayOfYear: 266 },
+  { kind: 'decemberSolstice', label: 'December solstice', longitudeDeg: 270, dayOfYear: 355 },
+];
+
+const AU_KM = 149597870.7;
+const EARTH_MOON_MASS_RATIO = 81.3005;
+
+// Sun–Earth distance (AU): the Keplerian radius vector belongs to the Earth–Moon barycentre,
+// and the Earth sits 1/(1 + mass ratio) of the Moon's distance from it, on the side away from the Moon
+function earthSunDistanceAu(jdUT: number) {
+  const sun = sunSampleMeeus(jdUT);
+  const moon = moonSample(jdUT);
+  const offsetAu = moon.distanceKm / (1 + EARTH_MOON_MASS_RATIO) / AU_KM;
+  return sun.distanceAu! + offsetAu * Math.cos(deg2rad(moon.longitudeDeg - sun.apparentLongitudeDeg!));
+}
+
+// UT Julian Day at which the Sun's apparent longitude reaches targetDeg (Meeus ch. 27 correction step)
+function solarLongitudeInstantJd(targetDeg: number, guessJd: number) {
+  let jd = guessJd;
+  for (let i = 0; i < 20; i++) {
+    const correction = 58 * Math.sin(deg2rad(targetDeg - sunSampleMeeus(jd).apparentLongitudeDeg!));
+    jd += correction;
+    if (Math.abs(correction) < 1e-6) break;
+  }
+  return jd;
+}
+
+// Golden-section search for the minimum of f on [a, b], to about a second
+function minimizeJd(f: (jd: number) => number, a: number, b: number) {
+  const r = (Math.sqrt(5) - 1) / 2;
+  let c = b - r * (b - a);
+  let d = a + r * (b - a);
+  let fc = f(c);
+  let fd = f(d);
+  while (b - a > 1e-5) {
+    if (fc < fd) {
+      b = d;
+      d = c;
+      fd = fc;
+      c = b - r * (b - a);
+      fc = f(c);
+    } else {
+      a = c;
+      c = d;
+      fc = fd;
+      d = a + r * (b - a);
+      fd = f(d);
+    }
+  }
+  return (a + b) / 2;
+}
+
+// Equinoxes, solstices, perihelion and aphelion falling in a calendar year (UT), in time order.
+// Uses the low-precision Meeus solar theory (about 0.01° in longitude) whatever the selected engine, so the
+// equinoxes and solstices come out within about a quarter of an hour for recent centuries. The apsides are
+// the Earth's own, which the Moon shifts by up to a day from the barycentre's; they are good to an hour or two.
+export function findSeasonEvents(year: number, zone?: ObserverZone): SeasonEvent[] {
+  const found: Array<{ kind: SeasonEventKind; label: string; jd: number }> = SOLAR_LONGITUDE_EVENTS.map(e => ({
+    kind: e.kind,
+    label: e.label,
+    jd: solarLongitudeInstantJd(e.longitudeDeg, julianDayAtStartOfDay(year, e.dayOfYear)),
+  }));
+
+  // Apsides: first perihelion (mean anomaly 0°) and aphelion (180°) after the year starts, refined within ±10 days
+  const yearStartJd = julianDayAtStartOfDay(year, 1);
+  const T = julianCenturiesTT(yearStartJd);
+  const meanAnomalyDeg = 357.52911 + 35999.05029 * T - 0.0001537 * T * T;
+  for (const [kind, label, anomalyDeg, sign] of [['perihelion', 'Perihelion', 0, 1], ['aphelion', 'Aphelion', 180, -1]] as const) {
+    const guessJd = yearStartJd + normalizeDeg(anomalyDeg - meanAnomalyDeg) / 0.98560028;
+    found.push({ kind, label, jd: minimizeJd(jd => sign * earthSunDistanceAu(jd), guessJd - 10, guessJd + 10) });
+  }
+
+  return found
+    .map(({ kind, label, jd }) => {
+      const utcMs = utcMsFromJulianDay(jd);
+      const offsetMinutes = zone?.timeZone ? utcOffsetMinutesAt(zone.timeZone, utcMs) : 60 * (zone?.tzOffsetHours ?? 0);
+      const local = new Date(utcMs + offsetMinutes * 60000);
+      const localTime = `${String(local.getUTCHours()).padStart(2, '0')}:${String(local.getUTCMinutes()).padStart(2, '0')}`;
+      return { kind, label, utcMs, dateISO: dateISOFromUtcMs(local.getTime()), localTime };
+    })
+    .filter(e => new Date(e.utcMs).getUTCFullYear() === year)
+    .sort((a, b) => a.utcMs - b.utcMs);
+}
+
+// Greenwich mean sidereal time (degrees) at a UT Julian Day (Meeus 12.4)
+function greenwichSiderealDeg(jdUT: number) {
+  const d = jdUT - 2451545.0;
+  const T = d / 36525;
+  return normalizeDeg(280.46061837 + 360.98564736629 * d + 0.000387933 * T * T);
+}
+
+// Lunar analemma: the Moon every mean lunar day from the time mode's hh:mm on the first date,
+// so the clock time of each sample is about 50 minutes later than the one before.
+// Spans the sampling date range, or one synodic month from the start of the year.
+function computeMoonAnalemmaPoints(inputs: AnalemmaInputs): AnalemmaPoint[] {
+  const year = inputs.year ?? new Date().getFullYear();
+  const ephemeris = inputs.ephemeris ?? 'noaa';
+  const phi = deg2rad(inputs.latitudeDeg);
+  const horizonAltitudeDeg = -horizonDipDeg(inputs.observerElevationM ?? 0, inputs.refraction !== undefined);
+
+  const days = inputs.sampling ? samplingDays({ ...inputs.sampling, stepDays: 1, timesOfDay: undefined }, year) : [{ year, day: 1 }];
+  if (days.length === 0) return [];
+  const first = days[0];
+  const last = days[days.length - 1];
+
+  // First sample as in the solar analemma; apparent solar time needs that day's EoT
+  const tzOffsetHours = tzOffsetHoursForDay(inputs, first.year, first.day);
+  let utcMin = utcMinutesForTimeMode(inputs.timeMode, inputs.longitudeDeg, tzOffsetHours);
+  if (inputs.timeMode.kind === 'apparentSolarTime') {
+    const sun = sunSampleAtUtMinutes(ephemeris, first.year, first.day, utcMin);
+    utcMin = utcMinutesForTimeMode(inputs.timeMode, inputs.longitudeDeg, tzOffsetHours, sun.eotMinutes);
+  }
+  const startJd = julianDayAtStartOfDay(first.year, first.day) + utcMin / 1440;
+  const endJd = inputs.sampling ? julianDayAtStartOfDay(last.year, last.day) + 1 + utcMin / 1440 : startJd + SYNODIC_MONTH_DAYS;
+
+  const points: AnalemmaPoint[] = [];
+  for (let jd = startJd; jd < endJd && points.length < MAX_SAMPLES; jd += LUNAR_DAY_DAYS) {
+    const moon = moonSample(jd);
+    const H = deg2rad(greenwichSiderealDeg(jd) + inputs.longitudeDeg) - moon.raRad;
+    let { E, N, U } = enuFromHourAngle(phi, moon.declRad, H);
+
+    // Topocentric altitude: the Moon is lowered by its horizontal parallax (about 1°)
+    const geocentricAltitudeDeg = rad2deg(Math.asin(Math.max(-1, Math.min(1, U))));
+    const parallaxDeg = rad2deg(Math.asin(6378.14 / moon.distanceKm));
+    let altitudeDeg = geocentricAltitudeDeg - parallaxDeg * Math.cos(deg2rad(geocentricAltitudeDeg));
+    if (inputs.refraction) {
+      altitudeDeg = Math.min(90, altitudeDeg + refractionDeg(altitudeDeg, inputs.refraction));
+    }
+    ({ E, N, U } = withAltitude({ E, N, U }, geocentricAltitudeDeg, altitudeDeg));
+
+    const timestampMs = utcMsFromJulianDay(jd);
+    const point: AnalemmaPoint = {
+      dateISO: dateISOFromUtcMs(timestampMs + timeModeOffsetMinutes(inputs, timestampMs) * 60000),
+      azimuthDeg: normalizeDeg(rad2deg(Math.atan2(E, N))),
+      altitudeDeg,
+      visible: altitudeDeg > horizonAltitudeDeg,
+      E,
+      N,
+      U,
+      declinationDeg: rad2deg(moon.declRad),
+      hourAngleDeg: signedDeg(rad2deg(H)),
+      timestampMs,
+      moonIllumination: moon.illumination,
+      moonWaxing: moon.waxing,
+    };
+    if (inputs.timeZone && inputs.timeMode.kind === 'fixedLocalTime') {
+      point.utcOffsetHours = timeModeOffsetMinutes(inputs, timestampMs) / 60;
+    }
+    points.push(point);
+  }
+  return points;
+}
+
+export function computeAnalemmaPoints(inputs: AnalemmaInputs): AnalemmaPoint[] {
+  if (inputs.body) return computeBodyAnalemmaPoints(inputs, inputs.body);
+  if (inputs.target === 'moon') {
+    const moonPoints = computeMoonAnalemmaPoints(inputs);
+    markObstructed(moonPoints, inputs.horizonProfile);
+    return moonPoints;
+  }
+
+  const year = inputs.year ?? new Date().getFullYear();
+  const phi = deg2rad(inputs.latitudeDeg);
+  const ephemeris = inputs.ephemeris ?? 'noaa';
+  const horizonAltitudeDeg = -horizonDipDeg(inputs.observerElevationM ?? 0, inputs.refraction !== undefined);
+  const days = samplingDays(inputs.sampling, year);
+  // One figure per time of day, each in date order
+  const timeModes: TimeMode[] = inputs.sampling?.timesOfDay
+    ? inputs.sampling.timesOfDay.map(t => ({ ...inputs.timeMode, hh: t.hh, mm: t.mm }))
+    : [inputs.timeMode];
 
   const points: AnalemmaPoint[] = [];
   let lastValidAzimuth = 180; // Default to South for Northern Hemisphere
@@ -90,41 +1048,25 @@ export function computeAnalemmaPoints(inputs: AnalemmaInputs): AnalemmaPoint[] {
   let maxAz = -Infinity;
   let visibleCount = 0;
 
-  for (let n = 1; n <= nDays; n++) {
-    const gamma = (2 * Math.PI / nDays) * (n - 1 + 0.5);
-
-    const decl =
-      0.006918 -
-      0.399912 * Math.cos(gamma) +
-      0.070257 * Math.sin(gamma) -
-      0.006758 * Math.cos(2 * gamma) +
-      0.000907 * Math.sin(2 * gamma) -
-      0.002697 * Math.cos(3 * gamma) +
-      0.00148 * Math.sin(3 * gamma);
-
-    // Equation of Time (minutes): NOAA approximation
-    const eotMin = 229.18 * (
-      0.000075 +
-      0.001868 * Math.cos(gamma) -
-      0.032077 * Math.sin(gamma) -
-      0.014615 * Math.cos(2 * gamma) -
-      0.040849 * Math.sin(2 * gamma)
-    );
+  for (let i = 0; i < timeModes.length * days.length && points.length < MAX_SAMPLES; i++) {
+    const timeMode = timeModes[Math.floor(i / days.length)];
+    const { year, day: n } = days[i % days.length];
+    const dayStartJd = julianDayAtStartOfDay(year, n);
+    const tzOffsetHours = tzOffsetHoursForDay({ ...inputs, timeMode }, year, n);
+    let utcMin = utcMinutesForTimeMode(timeMode, inputs.longitudeDeg, tzOffsetHours);
+    const gamma = noaaFractionalYear(year, n);
+    let sun = sunSample(ephemeris, dayStartJd + utcMin / 1440, gamma);
+    if (timeMode.kind === 'apparentSolarTime') {
+      // Move to the instant corrected by this day's EoT and re-sample there
+      utcMin = utcMinutesForTimeMode(timeMode, inputs.longitudeDeg, tzOffsetHours, sun.eotMinutes);
+      sun = sunSample(ephemeris, dayStartJd + utcMin / 1440, gamma);
+    }
+    const decl = sun.declRad;
+    const eotMin = sun.eotMinutes;
 
     // Hour angle computation using NOAA formula
-    // Accounts for: local clock time, Equation of Time, longitude offset from time zone meridian
-    const tz = inputs.tzOffsetHours; // e.g., +7 for Bangkok
-    const LSTM = 15 * tz; // Local Standard Time Meridian (degrees)
-    
-    // NOAA time correction: Equation of Time + longitude offset from time zone meridian
-    const timeOffsetMin = eotMin + 4 * (inputs.longitudeDeg - LSTM);
-    
-    // True Solar Time in minutes
-    // NOAA convention: TST = LCT + timeOffset
-    let trueSolarTimeMin = localClockMinutes + timeOffsetMin;
-    
-    // Normalize to [0, 1440)
-    trueSolarTimeMin = ((trueSolarTimeMin % 1440) + 1440) % 1440;
+    // Accounts for: time mode, Equation of Time, longitude offset from time zone meridian
+    const trueSolarTimeMin = trueSolarTimeMinutes(timeMode, eotMin, inputs.longitudeDeg, tzOffsetHours);
     
     // Hour angle in degrees
     const H_deg = trueSolarTimeMin / 4 - 180;
@@ -132,21 +1074,34 @@ export function computeAnalemmaPoints(inputs: AnalemmaInputs): AnalemmaPoint[] {
 
     // Compute ENU (East-North-Up) coordinates directly from H, decl, phi
     // This is numerically stable even at zenith (where azimuth is undefined)
-    const E = Math.cos(decl) * Math.sin(H);
-    const N = Math.cos(phi) * Math.sin(decl) - Math.sin(phi) * Math.cos(decl) * Math.cos(H);
-    const U = Math.sin(phi) * Math.sin(decl) + Math.cos(phi) * Math.cos(decl) * Math.cos(H);
+    let { E, N, U } = enuFromHourAngle(phi, decl, H);
     
-    // Derive altitude from U component
-    const altitudeDeg = rad2deg(Math.asin(Math.max(-1, Math.min(1, U))));
+    // Derive altitude from U component; with refraction, lift it to the apparent altitude
+    // and rescale ENU so the plotted vector stays consistent with altitudeDeg
+    const geometricAltitudeDeg = rad2deg(Math.asin(Math.max(-1, Math.min(1, U))));
+    let altitudeDeg = geometricAltitudeDeg;
+    if (inputs.refraction) {
+      altitudeDeg = Math.min(90, geometricAltitudeDeg + refractionDeg(geometricAltitudeDeg, inputs.refraction));
+      ({ E, N, U } = withAltitude({ E, N, U }, geometricAltitudeDeg, altitudeDeg));
+    }
     
     // Derive azimuth from E/N for display/tooltips only
     // This is stable because we're using the already-computed E/N, not going through atan2(sin/cos)
     const azimuthDeg = normalizeDeg(rad2deg(Math.atan2(E, N))); // 0°=North, clockwise
 
     const dateISO = dateFromDayOfYear(year, n);
-    const visible = altitudeDeg > 0;
+    const visible = altitudeDeg > horizonAltitudeDeg;
 
-    points.push({ dateISO, azimuthDeg, altitudeDeg, visible, E, N, U });
+    const timestampMs = utcMsFromJulianDay(dayStartJd) + utcMin * 60000;
+    const point: AnalemmaPoint = {
+      dateISO, azimuthDeg, altitudeDeg, visible, E, N, U,
+      declinationDeg: rad2deg(decl), hourAngleDeg: signedDeg(H_deg), eotMinutes: eotMin, timestampMs,
+    };
+    if (inputs.timeZone) point.utcOffsetHours = tzOffsetHours;
+    if (inputs.sampling?.timesOfDay) {
+      point.timeOfDay = `${String(timeMode.hh).padStart(2, '0')}:${String(timeMode.mm).padStart(2, '0')}`;
+    }
+    points.push(point);
     
     // Update summary statistics
     if (visible) {
@@ -174,7 +1129,7 @@ export function computeAnalemmaPoints(inputs: AnalemmaInputs): AnalemmaPoint[] {
     }
     const nearZenithCount = altitudes.filter(a => a >= 89).length;
     _debugOnce(
-      `main:${inputs.latitudeDeg.toFixed(6)}:${inputs.longitudeDeg.toFixed(6)}:${inputs.timeMode.hh}:${inputs.timeMode.mm}:${inputs.tzOffsetHours}:${year}`,
+      `main:${inputs.latitudeDeg.toFixed(6)}:${inputs.longitudeDeg.toFixed(6)}:${inputs.timeMode.kind}:${inputs.timeMode.hh}:${inputs.timeMode.mm}:${inputs.tzOffsetHours}:${inputs.timeZone ?? ''}:${year}:${ephemeris}:${JSON.stringify(inputs.refraction ?? null)}:${inputs.observerElevationM ?? 0}:${JSON.stringify(inputs.sampling ?? null)}`,
       {
         tag: 'AnalemmaDebug',
         mode: 'sky',
@@ -184,10 +1139,15 @@ export function computeAnalemmaPoints(inputs: AnalemmaInputs): AnalemmaPoint[] {
           longitudeDeg: inputs.longitudeDeg,
           timeMode: inputs.timeMode,
           tzOffsetHours: inputs.tzOffsetHours,
-          year
+          timeZone: inputs.timeZone,
+          year,
+          ephemeris,
+          refraction: inputs.refraction,
+          observerElevationM: inputs.observerElevationM,
+          sampling: inputs.sampling
         },
         counts: {
-          totalDays: nDays,
+          totalDays: points.length,
           visibleDays: vis.length,
           nearZenithDays: nearZenithCount
         },
@@ -202,51 +1162,572 @@ export function computeAnalemmaPoints(inputs: AnalemmaInputs): AnalemmaPoint[] {
     );
   }
 
+  markObstructed(points, inputs.horizonProfile);
   return points;
 }
 
-export function computeEquationOfTime(year: number): EotPoint[] {
+// Figure shape measured on the sky itself: samples are mapped to an azimuthal equidistant plane
+// centred on the figure's mean direction, so distances from the centre are true angles
+export interface FigureShape {
+  heightDeg: number;  // Extent along the main axis
+  widthDeg: number;  // Extent across the main axis
+  axisTiltDeg: number;  // Main axis from the vertical, positive when its top leans towards increasing azimuth
+  // Lobes are only measured on a closed loop; all three are null for an open figure
+  largeLobeAreaSqDeg: number | null;  // Whole figure when it does not cross itself
+  smallLobeAreaSqDeg: number | null;  // 0 when the figure does not cross itself
+  lobeAreaRatio: number | null;  // Large over small lobe; also null when the figure does not cross itself
+}
+
+export interface AnalemmaShapeMetrics extends FigureShape {
+  sampleCount: number;  // Samples in the measured figure
+  closedLoop: boolean;  // One full year (or body year) of the Sun; false for partial ranges, several years and the Moon
+  intersection: { altitudeDeg: number; azimuthDeg: number; dates: [string, string] } | null;
+  highest: AnalemmaPoint;
+  lowest: AnalemmaPoint;
+  minAzimuth: AnalemmaPoint;  // Extremes of azimuth on the side of the figure's centre
+  maxAzimuth: AnalemmaPoint;
+}
+
+// The crossing search is quadratic; longer figures (several years of daily samples) skip it
+const MAX_LOBE_SAMPLES = 2000;
+
+type Vec3 = { E: number; N: number; U: number };
+
+// Shape of a figure of ENU directions (any length). For a closed loop it also finds where the loop
+// first crosses itself: the segments (i, i+1) and (j, j+1) with their fractions t and u, and the
+// crossing direction. An open figure has no lobes, and the gap between its ends is not a segment.
+function loopShape(E: ArrayLike<number>, N: ArrayLike<number>, U: ArrayLike<number>, n: number, closed = true) {
+  // Plane basis: centre c, "right" towards increasing azimuth and "up" towards the zenith
+  let sumE = 0;
+  let sumN = 0;
+  let sumU = 0;
+  for (let k = 0; k < n; k++) {
+    const length = Math.hypot(E[k], N[k], U[k]);
+    sumE += E[k] / length;
+    sumN += N[k] / length;
+    sumU += U[k] / length;
+  }
+  const sumLength = Math.hypot(sumE, sumN, sumU);
+  if (n < 3 || sumLength === 0) return null;
+  const c: Vec3 = { E: sumE / sumLength, N: sumN / sumLength, U: sumU / sumLength };
+  // Near the zenith "up" is undefined; fall back to north as the reference
+  const reference: Vec3 = Math.abs(c.U) > 0.999 ? { E: 0, N: 1, U: 0 } : { E: 0, N: 0, U: 1 };
+  const cross = (a: Vec3, b: Vec3): Vec3 => ({ E: a.N * b.U - a.U * b.N, N: a.U * b.E - a.E * b.U, U: a.E * b.N - a.N * b.E });
+  const rightRaw = cross(c, reference);
+  const rightLength = Math.hypot(rightRaw.E, rightRaw.N, rightRaw.U);
+  const right: Vec3 = { E: rightRaw.E / rightLength, N: rightRaw.N / rightLength, U: rightRaw.U / rightLength };
+  const up = cross(right, c);
+
+  const xs = new Float64Array(n);
+  const ys = new Float64Array(n);
+  for (let k = 0; k < n; k++) {
+    const length = Math.hypot(E[k], N[k], U[k]);
+    const dotC = (E[k] * c.E + N[k] * c.N + U[k] * c.U) / length;
+    const x = (E[k] * right.E + N[k] * right.N + U[k] * right.U) / length;
+    const y = (E[k] * up.E + N[k] * up.N + U[k] * up.U) / length;
+    const r = Math.hypot(x, y);
+    const angleDeg = rad2deg(Math.acos(Math.max(-1, Math.min(1, dotC))));
+    xs[k] = r === 0 ? 0 : (angleDeg * x) / r;
+    ys[k] = r === 0 ? 0 : (angleDeg * y) / r;
+  }
+
+  // Main axis from the second moments
+  let meanX = 0;
+  let meanY = 0;
+  for (let k = 0; k < n; k++) {
+    meanX += xs[k] / n;
+    meanY += ys[k] / n;
+  }
+  let sxx = 0;
+  let syy = 0;
+  let sxy = 0;
+  for (let k = 0; k < n; k++) {
+    sxx += (xs[k] - meanX) ** 2;
+    syy += (ys[k] - meanY) ** 2;
+    sxy += (xs[k] - meanX) * (ys[k] - meanY);
+  }
+  const axisAngle = 0.5 * Math.atan2(2 * sxy, sxx - syy);  // From the x axis
+  let alongMin = Infinity;
+  let alongMax = -Infinity;
+  let acrossMin = Infinity;
+  let acrossMax = -Infinity;
+  for (let k = 0; k < n; k++) {
+    const along = xs[k] * Math.cos(axisAngle) + ys[k] * Math.sin(axisAngle);
+    const across = -xs[k] * Math.sin(axisAngle) + ys[k] * Math.cos(axisAngle);
+    alongMin = Math.min(alongMin, along);
+    alongMax = Math.max(alongMax, along);
+    acrossMin = Math.min(acrossMin, across);
+    acrossMax = Math.max(acrossMax, across);
+  }
+
+  // Shoelace area of the loop from sample `from` to sample `to` (inclusive, wrapping), closed through an extra point
+  const loopArea = (from: number, to: number, extra?: { x: number; y: number }) => {
+    const count = ((to - from + n) % n) + 1;
+    let twiceArea = 0;
+    let prevX = extra ? extra.x : xs[(from + count - 1) % n];
+    let prevY = extra ? extra.y : ys[(from + count - 1) % n];
+    for (let k = 0; k < count; k++) {
+      const idx = (from + k) % n;
+      twiceArea += prevX * ys[idx] - xs[idx] * prevY;
+      prevX = xs[idx];
+      prevY = ys[idx];
+    }
+    if (extra) twiceArea += prevX * extra.y - extra.x * prevY;
+    return Math.abs(twiceArea) / 2;
+  };
+
+  // First crossing between non-adjacent segments of the closed loop
+  let crossing: { i: number; j: number; t: number; u: number; altitudeDeg: number; azimuthDeg: number } | null = null;
+  if (closed && n <= MAX_LOBE_SAMPLES) {
+    outer: for (let i = 0; i < n; i++) {
+      const ax = xs[i];
+      const ay = ys[i];
+      const bx = xs[(i + 1) % n];
+      const by = ys[(i + 1) % n];
+      for (let j = i + 2; j < n; j++) {
+        if (i === 0 && j === n - 1) continue;
+        const px = xs[j];
+        const py = ys[j];
+        const qx = xs[(j + 1) % n];
+        const qy = ys[(j + 1) % n];
+        const denominator = (bx - ax) * (qy - py) - (by - ay) * (qx - px);
+        if (denominator === 0) continue;
+        const t = ((px - ax) * (qy - py) - (py - ay) * (qx - px)) / denominator;
+        const u = ((px - ax) * (by - ay) - (py - ay) * (bx - ax)) / denominator;
+        if (t >= 0 && t < 1 && u >= 0 && u < 1) {
+          // Back from the plane to the sky
+          const x = ax + t * (bx - ax);
+          const y = ay + t * (by - ay);
+          const r = Math.hypot(x, y) || 1;
+          const angle = deg2rad(Math.hypot(x, y));
+          const s = Math.sin(angle);
+          const point = {
+            E: Math.cos(angle) * c.E + s * ((x / r) * right.E + (y / r) * up.E),
+            N: Math.cos(angle) * c.N + s * ((x / r) * right.N + (y / r) * up.N),
+            U: Math.cos(angle) * c.U + s * ((x / r) * right.U + (y / r) * up.U),
+          };
+          crossing = {
+            i,
+            j,
+            t,
+            u,
+            altitudeDeg: rad2deg(Math.asin(Math.max(-1, Math.min(1, point.U)))),
+            azimuthDeg: normalizeDeg(rad2deg(Math.atan2(point.E, point.N))),
+          };
+          break outer;
+        }
+      }
+    }
+  }
+
+  let largeLobeAreaSqDeg = closed ? loopArea(0, n - 1) : null;
+  let smallLobeAreaSqDeg = closed ? 0 : null;
+  if (crossing) {
+    const { i, j, t } = crossing;
+    const x = { x: xs[i] + t * (xs[(i + 1) % n] - xs[i]), y: ys[i] + t * (ys[(i + 1) % n] - ys[i]) };
+    const first = loopArea(i + 1, j, x);
+    const second = loopArea((j + 1) % n, i, x);
+    largeLobeAreaSqDeg = Math.max(first, second);
+    smallLobeAreaSqDeg = Math.min(first, second);
+  }
+
+  const shape: FigureShape = {
+    heightDeg: alongMax - alongMin,
+    widthDeg: acrossMax - acrossMin,
+    axisTiltDeg: signedDeg(2 * (90 - rad2deg(axisAngle))) / 2,
+    largeLobeAreaSqDeg,
+    smallLobeAreaSqDeg,
+    lobeAreaRatio: largeLobeAreaSqDeg !== null && smallLobeAreaSqDeg ? largeLobeAreaSqDeg / smallLobeAreaSqDeg : null,
+  };
+  return { shape, crossing, centreAzimuthDeg: rad2deg(Math.atan2(c.E, c.N)) };
+}
+
+// Shape of the first figure in a set of points (the first time of day). Only the Sun over one year
+// closes on itself: a body year of sols, or Earth samples whose spacing and span add up to a
+// tropical year. Anything else is measured as an open figure, without lobes or a crossing.
+// Lobes are split at the first self-intersection found.
+export function measureAnalemma(points: AnalemmaPoint[]): AnalemmaShapeMetrics | null {
+  const figure = points.filter(p => p.timeOfDay === points[0]?.timeOfDay);
+  const n = figure.length;
+  let closedLoop = false;
+  if (n > 1 && figure[0].sol !== undefined) {
+    closedLoop = true;
+  } else if (n > 1 && figure[0].moonIllumination === undefined && figure[0].timestampMs !== undefined) {
+    const spanDays = (figure[n - 1].timestampMs! - figure[0].timestampMs!) / 86400000;
+    const stepDays = spanDays / (n - 1);
+    closedLoop = Math.abs(spanDays + stepDays - EARTH_KEPLERIAN.tropicalYearDays) <= stepDays;
+  }
+  const measured = loopShape(figure.map(p => p.E), figure.map(p => p.N), figure.map(p => p.U), n, closedLoop);
+  if (!measured) return null;
+  const { shape, crossing, centreAzimuthDeg } = measured;
+
+  // Azimuth extremes relative to the centre, so figures straddling north do not wrap
+  const relativeAzimuth = (p: AnalemmaPoint) => signedDeg(p.azimuthDeg - centreAzimuthDeg);
+  const pick = (better: (p: AnalemmaPoint, best: AnalemmaPoint) => boolean) =>
+    figure.reduce((best, p) => (better(p, best) ? p : best));
+
+  return {
+    ...shape,
+    sampleCount: n,
+    closedLoop,
+    intersection: crossing && {
+      altitudeDeg: crossing.altitudeDeg,
+      azimuthDeg: crossing.azimuthDeg,
+      dates: [
+        figure[crossing.t < 0.5 ? crossing.i : (crossing.i + 1) % n].dateISO,
+        figure[crossing.u < 0.5 ? crossing.j : (crossing.j + 1) % n].dateISO,
+      ],
+    },
+    highest: pick((p, best) => p.altitudeDeg > best.altitudeDeg),
+    lowest: pick((p, best) => p.altitudeDeg < best.altitudeDeg),
+    minAzimuth: pick((p, best) => relativeAzimuth(p) < relativeAzimuth(best)),
+    maxAzimuth: pick((p, best) => relativeAzimuth(p) > relativeAzimuth(best)),
+  };
+}
+
+export interface AnalemmaGridInputs {
+  year: number;
+  clockMinutes: number;  // Clock time of the samples, minutes after midnight
+  utcOffsetMinutes?: number;  // The clock's standard offset from UT (default 0, a UTC clock)
+  timeZone?: string;  // IANA zone of the clock; when set, each day uses that day's offset (DST-aware)
+  latitudesDeg: number[];
+  clockOffsetsMinutes: number[];  // Local mean solar time minus standard clock time (4 min per degree east of the zone meridian)
+  ephemeris?: EphemerisModel;
+  stepDays?: number;  // Sample every stepDays days (default 2)
+}
+
+export interface AnalemmaGridCell extends FigureShape {
+  latitudeDeg: number;
+  clockOffsetMinutes: number;
+  visibleFraction: number;  // Share of samples with the Sun's centre above the geometric horizon
+}
+
+// Analemma shapes over a grid of latitudes and clock offsets, without per-day point objects.
+// Every cell reads the same zone clock, so all share one UT instant per day (the clock minus that
+// day's offset): the Sun is sampled once per day, and each cell only turns the shared declination
+// and EoT into an ENU direction in reused buffers. Refraction is left out.
+export function computeAnalemmaGrid(inputs: AnalemmaGridInputs): AnalemmaGridCell[] {
+  const { year, clockMinutes } = inputs;
+  const standardOffsetMinutes = inputs.utcOffsetMinutes ?? 0;
+  const ephemeris = inputs.ephemeris ?? 'noaa';
+  const stepDays = Math.max(1, Math.round(inputs.stepDays ?? 2));
+  const nDays = daysInYear(year);
+
+  const days: number[] = [];
+  for (let n = 1; n <= nDays; n += stepDays) days.push(n);
+  const decl = new Float64Array(days.length);
+  const eot = new Float64Array(days.length);
+  const daylightSaving = new Float64Array(days.length);  // Minutes the clock runs ahead of standard time
+  days.forEach((n, k) => {
+    const offsetMinutes = inputs.timeZone
+      ? 60 * utcOffsetHoursForLocalTime(inputs.timeZone, year, n, clockMinutes)
+      : standardOffsetMinutes;
+    const sun = sunSampleAtUtMinutes(ephemeris, year, n, clockMinutes - offsetMinutes);
+    decl[k] = sun.declRad;
+    eot[k] = sun.eotMinutes;
+    daylightSaving[k] = offsetMinutes - standardOffsetMinutes;
+  });
+
+  const E = new Float64Array(days.length);
+  const N = new Float64Array(days.length);
+  const U = new Float64Array(days.length);
+  const cells: AnalemmaGridCell[] = [];
+  for (const latitudeDeg of inputs.latitudesDeg) {
+    const phi = deg2rad(latitudeDeg);
+    for (const clockOffsetMinutes of inputs.clockOffsetsMinutes) {
+      let visibleCount = 0;
+      for (let k = 0; k < days.length; k++) {
+        // True solar time = clock - daylight saving + offset + EoT
+        const H = deg2rad((clockMinutes - daylightSaving[k] + clockOffsetMinutes + eot[k]) / 4 - 180);
+        const enu = enuFromHourAngle(phi, decl[k], H);
+        E[k] = enu.E;
+        N[k] = enu.N;
+        U[k] = enu.U;
+        if (enu.U > 0) visibleCount++;
+      }
+      const measured = loopShape(E, N, U, days.length);
+      if (!measured) continue;
+      cells.push({ ...measured.shape, latitudeDeg, clockOffsetMinutes, visibleFraction: visibleCount / days.length });
+    }
+  }
+  return cells;
+}
+
+export function computeEquationOfTime(year: number, ephemeris: EphemerisModel = 'noaa', body?: PlanetaryBody): EotPoint[] {
+  // Other bodies: one point per sol at prime-meridian mean noon; minutes are 1/1440 of a sol
+  if (body) return computeEquationOfTimeForElements(year, body.elements, body);
+
   const nDays = daysInYear(year);
   const points: EotPoint[] = [];
 
   for (let n = 1; n <= nDays; n++) {
     // Fractional year angle (same as in computeAnalemmaPoints)
-    const gamma = (2 * Math.PI / nDays) * (n - 1 + 0.5);
+    const gamma = noaaFractionalYear(year, n);
 
-    // Separate the two components of the Equation of Time:
-    // 1. Obliquity (axial tilt) - primarily the sin(gamma) and sin(2*gamma) terms
-    // 2. Eccentricity (orbital shape) - primarily the cos(gamma) and cos(2*gamma) terms
-    
-    // Obliquity component (axial tilt effect)
-    const obliquityComponent = 229.18 * (
-      -0.032077 * Math.sin(gamma) -
-      0.040849 * Math.sin(2 * gamma)
-    );
-    
-    // Eccentricity component (orbital eccentricity effect)
-    const eccentricityComponent = 229.18 * (
-      0.000075 +
-      0.001868 * Math.cos(gamma) -
-      0.014615 * Math.cos(2 * gamma)
-    );
-    
-    // Total Equation of Time (sum of both components)
-    const eotMinutes = obliquityComponent + eccentricityComponent;
+    // Instant-based engines are sampled at 12:00 UT, matching the NOAA mid-day fractional year
+    const sun = sunSample(ephemeris, julianDayAtStartOfDay(year, n) + 0.5, gamma);
+    const { eotMinutes, obliquityComponent, eccentricityComponent, fitResidualComponent } = sun;
 
     const dateISO = dateFromDayOfYear(year, n);
 
-    points.push({
+    const point: EotPoint = {
       dateISO,
       dayOfYear: n,
       eotMinutes,
       obliquityComponent,
       eccentricityComponent
-    });
+    };
+    if (fitResidualComponent !== undefined) point.fitResidualComponent = fitResidualComponent;
+    points.push(point);
   }
 
   return points;
 }
 
+export interface EotKeyDate {
+  kind: 'zero' | 'max' | 'min';
+  dayOfYear: number;  // Fractional, on the EotPoint dayOfYear axis (sol + 1 for other bodies)
+  dateISO: string;  // Date of the sample nearest the interpolated instant
+  eotMinutes: number;  // 0 at zero crossings
+}
+
+// Zero crossings (linear interpolation between samples) and local extrema (vertex of the parabola
+// through a peak sample and its neighbours) of an EoT curve, in date order. On Earth that is four
+// crossings, two maxima and two minima; none is found across the ends of the curve.
+export function findEotKeyDates(points: EotPoint[]): EotKeyDate[] {
+  const keyDates: EotKeyDate[] = [];
+  const at = (dayOfYear: number, kind: EotKeyDate['kind'], eotMinutes: number) => {
+    const nearest = points.reduce((best, p) => (Math.abs(p.dayOfYear - dayOfYear) < Math.abs(best.dayOfYear - dayOfYear) ? p : best));
+    keyDates.push({ kind, dayOfYear, dateISO: nearest.dateISO, eotMinutes });
+  };
+
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    if (a.eotMinutes !== 0 && Math.sign(a.eotMinutes) !== Math.sign(b.eotMinutes)) {
+      const t = a.eotMinutes / (a.eotMinutes - b.eotMinutes);
+      at(a.dayOfYear + t * (b.dayOfYear - a.dayOfYear), 'zero', 0);
+    }
+    if (i === points.length - 1) continue;
+
+    const c = points[i + 1];
+    const isMax = b.eotMinutes > a.eotMinutes && b.eotMinutes >= c.eotMinutes;
+    const isMin = b.eotMinutes < a.eotMinutes && b.eotMinutes <= c.eotMinutes;
+    if (!isMax && !isMin) continue;
+    // Samples are evenly spaced, so the vertex offset is in steps of (c - b) days
+    const curvature = a.eotMinutes - 2 * b.eotMinutes + c.eotMinutes;
+    const offset = curvature === 0 ? 0 : (a.eotMinutes - c.eotMinutes) / (2 * curvature);
+    const eotMinutes = b.eotMinutes - ((a.eotMinutes - c.eotMinutes) * offset) / 4;
+    at(b.dayOfYear + offset * (c.dayOfYear - b.dayOfYear), isMax ? 'max' : 'min', eotMinutes);
+  }
+
+  return keyDates;
+}
+
+// The Sun's path across the sky on one date (Earth only): the analemma pipeline sampled every
+// stepMinutes of the time mode's clock, plus the time mode's own hh:mm so the day's analemma
+// point lies on the path. Points are in time order and carry timeOfDay.
+export function computeSunPath(
+  inputs: Omit<AnalemmaInputs, 'sampling' | 'body'>,
+  dateISO: string,
+  stepMinutes = 10
+): AnalemmaPoint[] {
+  const step = Math.max(1, Math.round(stepMinutes));
+  const minutes = new Set<number>([timeModeMinutes(inputs.timeMode)]);
+  for (let m = 0; m < 1440; m += step) minutes.add(m);
+  const timesOfDay = [...minutes].sort((a, b) => a - b).map(m => ({ hh: Math.floor(m / 60), mm: m % 60 }));
+  return computeAnalemmaPoints({ ...inputs, body: undefined, target: 'sun', sampling: { startDateISO: dateISO, endDateISO: dateISO, timesOfDay } });
+}
+
+// Schedule for an analemma family: one figure every intervalMinutes around the clock, over the
+// base range (or the whole year). Times whose figure never comes above the horizon at the site
+// are left out, found from a coarse weekly pass; if the Sun never rises, every time is kept.
+// The day step is widened if needed to stay within MAX_SAMPLES.
+export function analemmaFamilySampling(
+  inputs: Omit<AnalemmaInputs, 'sampling' | 'body' | 'target'>,
+  intervalMinutes: number,
+  base?: SamplingOptions
+): SamplingOptions {
+  const step = Math.max(1, Math.round(intervalMinutes));
+  const allTimes: Array<{ hh: number; mm: number }> = [];
+  for (let m = 0; m < 1440; m += step) allTimes.push({ hh: Math.floor(m / 60), mm: m % 60 });
+
+  const year = inputs.year ?? new Date().getFullYear();
+  const range = base ?? { startDateISO: formatDateISO(year, 1, 1), endDateISO: formatDateISO(year, 12, 31) };
+  const nDays = samplingDays({ ...range, stepDays: 1 }, year).length;
+
+  // At a fixed time the Sun moves under half a degree in three or four days, so a weekly
+  // pass with a 1° margin does not miss a figure that only just clears the horizon
+  const probeStep = Math.max(7, Math.ceil((allTimes.length * nDays) / MAX_SAMPLES));
+  const probe = computeAnalemmaPoints({ ...inputs, body: undefined, target: 'sun', sampling: { ...range, stepDays: probeStep, timesOfDay: allTimes } });
+  const risen = new Set(probe.filter(p => p.altitudeDeg > -1 - horizonDipDeg(inputs.observerElevationM ?? 0, inputs.refraction !== undefined)).map(p => p.timeOfDay));
+  const timeLabel = (t: { hh: number; mm: number }) => `${String(t.hh).padStart(2, '0')}:${String(t.mm).padStart(2, '0')}`;
+  const timesOfDay = risen.size > 0 ? allTimes.filter(t => risen.has(timeLabel(t))) : allTimes;
+
+  const stepDays = Math.max(base?.stepDays ?? 1, Math.ceil((timesOfDay.length * nDays) / MAX_SAMPLES));
+  return { startDateISO: range.startDateISO, endDateISO: range.endDateISO, stepDays, timesOfDay };
+}
+
+// The Sun's position at a UT instant (Earth only), with the analemma's refraction, horizon and profile
+export function sunPositionAt(inputs: Omit<AnalemmaInputs, 'timeMode' | 'sampling' | 'body' | 'target'>, utcMs: number): AnalemmaPoint {
+  const year = new Date(utcMs).getUTCFullYear();
+  const day = Math.floor((utcMs - utcMsAtStartOfDay(year, 1)) / 86400000) + 1;
+  const utMin = (utcMs - utcMsAtStartOfDay(year, day)) / 60000;
+  const sun = sunSampleAtUtMinutes(inputs.ephemeris ?? 'noaa', year, day, utMin);
+  const hourAngleDeg = signedDeg((utMin + sun.eotMinutes + 4 * inputs.longitudeDeg) / 4 - 180);
+
+  let { E, N, U } = enuFromHourAngle(deg2rad(inputs.latitudeDeg), sun.declRad, deg2rad(hourAngleDeg));
+  const geometricAltitudeDeg = rad2deg(Math.asin(Math.max(-1, Math.min(1, U))));
+  let altitudeDeg = geometricAltitudeDeg;
+  if (inputs.refraction) {
+    altitudeDeg = Math.min(90, geometricAltitudeDeg + refractionDeg(geometricAltitudeDeg, inputs.refraction));
+    ({ E, N, U } = withAltitude({ E, N, U }, geometricAltitudeDeg, altitudeDeg));
+  }
+
+  const point: AnalemmaPoint = {
+    dateISO: dateISOFromUtcMs(utcMs),
+    azimuthDeg: normalizeDeg(rad2deg(Math.atan2(E, N))),
+    altitudeDeg,
+    visible: altitudeDeg > -horizonDipDeg(inputs.observerElevationM ?? 0, inputs.refraction !== undefined),
+    E,
+    N,
+    U,
+    declinationDeg: rad2deg(sun.declRad),
+    hourAngleDeg,
+    eotMinutes: sun.eotMinutes,
+    timestampMs: utcMs,
+  };
+  markObstructed([point], inputs.horizonProfile);
+  return point;
+}
+
+// Live view (Earth only): the Sun now, today's analemma sample on the time mode's calendar,
+// and the next sample still to come (today's, or tomorrow's once it has passed)
+export function computeLiveSun(inputs: Omit<AnalemmaInputs, 'sampling' | 'body' | 'target'>, nowMs: number) {
+  const dayMs = 86400000;
+  const samples = computeAnalemmaPoints({
+    ...inputs,
+    body: undefined,
+    target: 'sun',
+    sampling: { startDateISO: dateISOFromUtcMs(nowMs - dayMs), endDateISO: dateISOFromUtcMs(nowMs + 2 * dayMs) },
+  });
+  const todayISO = dateISOFromUtcMs(nowMs + timeModeOffsetMinutes(inputs, nowMs) * 60000);
+  return {
+    current: sunPositionAt(inputs, nowMs),
+    today: samples.find(p => p.dateISO === todayISO),
+    next: samples.find(p => p.timestampMs !== undefined && p.timestampMs > nowMs),
+  };
+}
+
+// Rise, set, transit and twilight times for one day, as minutes after local midnight on the
+// observer's clock (tzOffsetHours, or the IANA timeZone with DST). An event is null when the Sun
+// does not cross that altitude that day; times can fall just outside 0-1440 near midnight.
+export interface SunTimesDay {
+  dateISO: string;
+  dayOfYear: number;
+  solarNoon: number;
+  noonAltitudeDeg: number;
+  sunrise: number | null;
+  sunset: number | null;
+  civilDawn: number | null;  // Sun 6° below the horizon
+  civilDusk: number | null;
+  nauticalDawn: number | null;  // 12° below
+  nauticalDusk: number | null;
+  astronomicalDawn: number | null;  // 18° below
+  astronomicalDusk: number | null;
+  dayLengthMinutes: number;
+  polar?: 'day' | 'night';  // Set when the Sun stays above (midnight sun) or below the horizon all day
+  utcOffsetHours: number;  // Clock offset at solar noon
+}
+
+// Sample of the selected engine at a UT time of day (minutes after 00:00 UT)
+function sunSampleAtUtMinutes(ephemeris: EphemerisModel, year: number, day: number, utMin: number) {
+  const gamma = noaaFractionalYear(year, day);
+  return sunSample(ephemeris, julianDayAtStartOfDay(year, day) + utMin / 1440, gamma);
+}
+
+// UT minutes at which the Sun's centre crosses altitudeDeg before (-1) or after (+1) transit,
+// re-evaluated so declination and EoT match the event instant. null if it never crosses.
+function altitudeCrossingUtMinutes(
+  ephemeris: EphemerisModel,
+  year: number,
+  day: number,
+  latitudeDeg: number,
+  longitudeDeg: number,
+  altitudeDeg: number,
+  direction: -1 | 1
+) {
+  const phi = deg2rad(latitudeDeg);
+  let t = 720 - 4 * longitudeDeg;
+  for (let i = 0; i < 3; i++) {
+    const sun = sunSampleAtUtMinutes(ephemeris, year, day, t);
+    const cosH = (Math.sin(deg2rad(altitudeDeg)) - Math.sin(phi) * Math.sin(sun.declRad)) / (Math.cos(phi) * Math.cos(sun.declRad));
+    if (!(cosH >= -1 && cosH <= 1)) return null;
+    t = 720 - 4 * longitudeDeg - sun.eotMinutes + direction * 4 * rad2deg(Math.acos(cosH));
+  }
+  return t;
+}
+
+// Sunrise, sunset, solar noon and twilight for each day of the year (Earth only).
+// Sunrise and sunset refer to the upper limb: 16' semi-diameter plus horizon refraction
+// (34', or from inputs.refraction) plus the dip for an elevated observer.
+export function computeSunTimes(inputs: Omit<AnalemmaInputs, 'timeMode' | 'sampling' | 'body'>): SunTimesDay[] {
+  const year = inputs.year ?? new Date().getFullYear();
+  const ephemeris = inputs.ephemeris ?? 'noaa';
+  const { latitudeDeg, longitudeDeg } = inputs;
+  const phi = deg2rad(latitudeDeg);
+  const horizonRefractionDeg = inputs.refraction ? refractionDeg(-34 / 60, inputs.refraction) : 34 / 60;
+  const riseAltitudeDeg = -16 / 60 - horizonRefractionDeg - horizonDipDeg(inputs.observerElevationM ?? 0, true);
+
+  const days: SunTimesDay[] = [];
+  for (let n = 1; n <= daysInYear(year); n++) {
+    // Transit: local mean noon corrected by the EoT at that instant
+    let noonUt = 720 - 4 * longitudeDeg;
+    let noonSun = sunSampleAtUtMinutes(ephemeris, year, n, noonUt);
+    for (let i = 0; i < 2; i++) {
+      noonUt = 720 - 4 * longitudeDeg - noonSun.eotMinutes;
+      noonSun = sunSampleAtUtMinutes(ephemeris, year, n, noonUt);
+    }
+
+    const dayStartMs = utcMsAtStartOfDay(year, n);
+    const offsetHoursAt = (utMin: number) =>
+      inputs.timeZone ? utcOffsetMinutesAt(inputs.timeZone, dayStartMs + utMin * 60000) / 60 : inputs.tzOffsetHours;
+    const toLocal = (utMin: number | null) => (utMin === null ? null : utMin + 60 * offsetHoursAt(utMin));
+    const crossing = (altitudeDeg: number, direction: -1 | 1) =>
+      toLocal(altitudeCrossingUtMinutes(ephemeris, year, n, latitudeDeg, longitudeDeg, altitudeDeg, direction));
+
+    const sunrise = crossing(riseAltitudeDeg, -1);
+    const sunset = crossing(riseAltitudeDeg, 1);
+    const noonAltitudeDeg = 90 - Math.abs(latitudeDeg - rad2deg(noonSun.declRad));
+
+    // No crossing: decide between midnight sun and polar night from the altitude at transit
+    let polar: SunTimesDay['polar'];
+    if (sunrise === null || sunset === null) {
+      const lowest = rad2deg(Math.asin(Math.sin(phi) * Math.sin(noonSun.declRad) - Math.cos(phi) * Math.cos(noonSun.declRad)));
+      polar = lowest > riseAltitudeDeg ? 'day' : 'night';
+    }
+
+    days.push({
+      dateISO: dateFromDayOfYear(year, n),
+      dayOfYear: n,
+      solarNoon: toLocal(noonUt)!,
+      noonAltitudeDeg,
+      sunrise: polar ? null : sunrise,
+      sunset: polar ? null : sunset,
+      civilDawn: crossing(-6, -1),
+      civilDusk: crossing(-6, 1),
+      nauticalDawn: crossing(-12, -1),
+      nauticalDusk: crossing(-12, 1),
+      astronomicalDawn: crossing(-18, -1),
+      astronomicalDusk: crossing(-18, 1),
+      dayLengthMinutes: polar ? (polar === 'day' ? 1440 : 0) : sunset! - sunrise!,
+      polar,
+      utcOffsetHours: offsetHoursAt(noonUt),
+    });
+  }
+  return days;
+}
+
 export interface AnalemmaInsetPoint {
   azimuthDeg: number;
   altitudeDeg: number;
@@ -256,74 +1737,106 @@ export interface AnalemmaInsetPoint {
   U: number;  // Up component (ENU coordinates)
 }
 
+// Current Earth elements for the given year, used as the starting point for what-if figures
+export function earthOrbitalElements(year: number): OrbitalElements {
+  return secularOrbitalElements((julianDayAtStartOfDay(year, 183) - 2451545.0) / 36525);
+}
+
+export interface EotComponentSelection {
+  obliquity: boolean;
+  eccentricity: boolean;
+}
+
+// Keep only the selected EoT components of a sample. Without the obliquity part the Sun stays on the
+// equator; with it, the declination is the real one, taken at the true longitude like λ - α itself.
+function selectEotComponents(sun: SunSample, components: EotComponentSelection): SunSample {
+  // Both parts selected is the whole sample, including the NOAA fit's residual
+  if (components.obliquity && components.eccentricity) return sun;
+  const obliquityComponent = components.obliquity ? sun.obliquityComponent : 0;
+  const eccentricityComponent = components.eccentricity ? sun.eccentricityComponent : 0;
+  return {
+    declRad: components.obliquity ? sun.declRad : 0,
+    eotMinutes: obliquityComponent + eccentricityComponent,
+    obliquityComponent,
+    eccentricityComponent,
+  };
+}
+
+// Equation of Time for arbitrary orbital elements, computed from Kepler's equation.
+// Earth is sampled per calendar day at 12:00 UT; other bodies per sol.
+export function computeEquationOfTimeForElements(
+  year: number,
+  elements: OrbitalElements,
+  body?: PlanetaryBody
+): EotPoint[] {
+  if (body) {
+    return bodyYearSamples(body, elements, year, 720).map(({ sol, jdUT, sun, solarLongitudeDeg }) => ({
+      dateISO: dateISOFromUtcMs(utcMsFromJulianDay(jdUT)),
+      dayOfYear: sol + 1,
+      eotMinutes: sun.eotMinutes,
+      obliquityComponent: sun.obliquityComponent,
+      eccentricityComponent: sun.eccentricityComponent,
+      solarLongitudeDeg,
+    }));
+  }
+
+  const nDays = daysInYear(year);
+  const points: EotPoint[] = [];
+  for (let n = 1; n <= nDays; n++) {
+    const sun = sunSampleKepler(elements, meanLongitudeDeg(julianDayAtStartOfDay(year, n) + 0.5));
+    points.push({
+      dateISO: dateFromDayOfYear(year, n),
+      dayOfYear: n,
+      eotMinutes: sun.eotMinutes,
+      obliquityComponent: sun.obliquityComponent,
+      eccentricityComponent: sun.eccentricityComponent
+    });
+  }
+  return points;
+}
+
+// Analemma for arbitrary orbital elements (obliquity, eccentricity, perihelion longitude),
+// computed from first principles with the same time handling as computeAnalemmaPoints.
+// With a component selection, only those parts of the EoT decomposition shape the figure.
 export function computeAnalemmaInset(
   inputs: {
     latitudeDeg: number;
     longitudeDeg: number;
     timeMode: TimeMode;
     tzOffsetHours: number;
+    timeZone?: string;
     year?: number;
+    body?: PlanetaryBody;
   },
-  includeObliquity: boolean,
-  includeEccentricity: boolean
+  elements: OrbitalElements,
+  components: EotComponentSelection = { obliquity: true, eccentricity: true }
 ): AnalemmaInsetPoint[] {
+  if (inputs.body) {
+    return computeBodyAnalemmaPoints(inputs, { ...inputs.body, elements }, components)
+      .map(({ azimuthDeg, altitudeDeg, visible, E, N, U }) => ({ azimuthDeg, altitudeDeg, visible, E, N, U }));
+  }
+
   const year = inputs.year ?? new Date().getFullYear();
   const nDays = daysInYear(year);
   const points: AnalemmaInsetPoint[] = [];
   
   const phi = deg2rad(inputs.latitudeDeg);
-  const localClockMinutes = inputs.timeMode.hh * 60 + inputs.timeMode.mm;
 
   for (let n = 1; n <= nDays; n++) {
-    const gamma = (2 * Math.PI / nDays) * (n - 1 + 0.5);
-
-    // Compute solar declination (only if obliquity is enabled)
-    // Declination is caused by Earth's axial tilt, not orbital eccentricity
-    let decl = 0;
-    if (includeObliquity) {
-      decl =
-        0.006918 -
-        0.399912 * Math.cos(gamma) +
-        0.070257 * Math.sin(gamma) -
-        0.006758 * Math.cos(2 * gamma) +
-        0.000907 * Math.sin(2 * gamma) -
-        0.002697 * Math.cos(3 * gamma) +
-        0.00148 * Math.sin(3 * gamma);
-    }
-
-    // Compute EoT based on selected components
-    let eotMin = 0;
-    
-    if (includeObliquity) {
-      eotMin += 229.18 * (
-        -0.032077 * Math.sin(gamma) -
-        0.040849 * Math.sin(2 * gamma)
-      );
-    }
-    
-    if (includeEccentricity) {
-      eotMin += 229.18 * (
-        0.000075 +
-        0.001868 * Math.cos(gamma) -
-        0.014615 * Math.cos(2 * gamma)
-      );
-    }
+    const tzOffsetHours = tzOffsetHoursForDay(inputs, year, n);
+    const utcMin = utcMinutesForTimeMode(inputs.timeMode, inputs.longitudeDeg, tzOffsetHours);
+    const sun = selectEotComponents(sunSampleKepler(elements, meanLongitudeDeg(julianDayAtStartOfDay(year, n) + utcMin / 1440)), components);
+    const decl = sun.declRad;
 
-    // Hour angle computation using component-based EoT
-    const tz = inputs.tzOffsetHours;
-    const LSTM = 15 * tz;
-    const timeOffsetMin = eotMin + 4 * (inputs.longitudeDeg - LSTM);
-    let trueSolarTimeMin = localClockMinutes + timeOffsetMin;
-    trueSolarTimeMin = ((trueSolarTimeMin % 1440) + 1440) % 1440;
+    // Hour angle from the what-if EoT
+    const trueSolarTimeMin = trueSolarTimeMinutes(inputs.timeMode, sun.eotMinutes, inputs.longitudeDeg, tzOffsetHours);
     const H_deg = trueSolarTimeMin / 4 - 180;
     const H = deg2rad(H_deg);
 
     // Compute ENU coordinates
-    // With decl=0 (obliquity disabled), Sun stays on celestial equator
+    // Without the obliquity part the Sun stays on the celestial equator and
     // EoT variation changes hour angle H, creating primarily horizontal spread
-    const E = Math.cos(decl) * Math.sin(H);
-    const N = Math.cos(phi) * Math.sin(decl) - Math.sin(phi) * Math.cos(decl) * Math.cos(H);
-    const U = Math.sin(phi) * Math.sin(decl) + Math.cos(phi) * Math.cos(decl) * Math.cos(H);
+    const { E, N, U } = enuFromHourAngle(phi, decl, H);
     
     const altitudeDeg = rad2deg(Math.asin(Math.max(-1, Math.min(1, U))));
     const azimuthDeg = normalizeDeg(rad2deg(Math.atan2(E, N)));
@@ -347,7 +1860,7 @@ export function computeAnalemmaInset(
     }
     const nearZenithCount = altitudes.filter(a => a >= 89).length;
     _debugOnce(
-      `inset:${inputs.latitudeDeg.toFixed(6)}:${inputs.longitudeDeg.toFixed(6)}:${inputs.timeMode.hh}:${inputs.timeMode.mm}:${inputs.tzOffsetHours}:${year}:${includeObliquity ? 1 : 0}:${includeEccentricity ? 1 : 0}`,
+      `inset:${inputs.latitudeDeg.toFixed(6)}:${inputs.longitudeDeg.toFixed(6)}:${inputs.timeMode.kind}:${inputs.timeMode.hh}:${inputs.timeMode.mm}:${inputs.tzOffsetHours}:${inputs.timeZone ?? ''}:${year}:${elements.obliquityDeg}:${elements.eccentricity}:${elements.perihelionLongitudeDeg}`,
       {
         tag: 'AnalemmaDebug',
         mode: 'sky',
@@ -357,9 +1870,9 @@ export function computeAnalemmaInset(
           longitudeDeg: inputs.longitudeDeg,
           timeMode: inputs.timeMode,
           tzOffsetHours: inputs.tzOffsetHours,
+          timeZone: inputs.timeZone,
           year,
-          includeObliquity,
-          includeEccentricity
+          elements
         },
         counts: {
           totalDays: nDays,
@@ -0,0 +1,126 @@
+import tzLookup from '@photostructure/tz-lookup';
+import { getTimeZones, rawTimeZones } from '@vvo/tzdb';
+
+export interface TimeZoneOption {
+  name: string;  // IANA zone id (e.g., "Europe/London")
+  label: string;  // Display label with standard offset
+  rawOffsetMinutes: number;  // Standard (non-DST) offset from UTC
+}
+
+export interface TimeZoneLookupResult {
+  timeZone: string;  // IANA zone id from the bundled boundary data
+  standardOffsetHours: number;
+}
+
+// Intl formatters are expensive to construct, so keep one per zone
+const _formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timeZone: string) {
+  let fmt = _formatters.get(timeZone);
+  if (!fmt) {
+    // Throws RangeError for an unknown zone id
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      era: 'short',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    _formatters.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+// Like Date.UTC, but without the 0-99 → 1900-1999 year mapping
+function utcMsFromParts(year: number, month0: number, day: number, hour = 0, minute = 0, second = 0) {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month0, day);
+  date.setUTCHours(hour, minute, second, 0);
+  return date.getTime();
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    zoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// UTC offset (minutes) in effect in the zone at the given UTC instant
+export function utcOffsetMinutesAt(timeZone: string, utcMs: number) {
+  const parts = zoneFormatter(timeZone).formatToParts(new Date(utcMs));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  // Years before 1 AD are reported as era "BC"; convert to astronomical numbering
+  const isBC = parts.find(p => p.type === 'era')?.value.startsWith('B') ?? false;
+  const year = isBC ? 1 - get('year') : get('year');
+  const asUtc = utcMsFromParts(year, get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((asUtc - Math.floor(utcMs / 1000) * 1000) / 60000);
+}
+
+// The tzdb table is searched linearly, so remember each zone's answer
+const _standardOffsets = new Map<string, number>();
+
+// Standard offset (minutes) from the bundled tzdb table; falls back to the January offset
+export function standardOffsetMinutes(timeZone: string) {
+  let offset = _standardOffsets.get(timeZone);
+  if (offset === undefined) {
+    const entry = rawTimeZones.find(tz => tz.name === timeZone || tz.group.includes(timeZone));
+    if (entry) {
+      offset = entry.rawOffsetInMinutes;
+    } else {
+      const year = new Date().getUTCFullYear();
+      offset = Math.min(
+        utcOffsetMinutesAt(timeZone, utcMsFromParts(year, 0, 1)),
+        utcOffsetMinutesAt(timeZone, utcMsFromParts(year, 6, 1))
+      );
+    }
+    _standardOffsets.set(timeZone, offset);
+  }
+  return offset;
+}
+
+// UTC offset (hours) for a wall-clock time on a given day of year in the zone.
+// Two passes resolve the offset at the instant itself rather than at the guess.
+export function utcOffsetHoursForLocalTime(timeZone: string, year: number, dayOfYear: number, localMinutes: number) {
+  const localAsUtcMs = utcMsFromParts(year, 0, dayOfYear) + localMinutes * 60000;
+  const first = utcOffsetMinutesAt(timeZone, localAsUtcMs - standardOffsetMinutes(timeZone) * 60000);
+  const second = utcOffsetMinutesAt(timeZone, localAsUtcMs - first * 60000);
+  return second / 60;
+}
+
+export function formatUtcOffset(offsetHours: number) {
+  const sign = offsetHours >= 0 ? '+' : '-';
+  const abs = Math.abs(offsetHours);
+  const h = Math.floor(abs);
+  const m = Math.round((abs - h) * 60);
+  return `UTC${sign}${h}${m ? `:${String(m).padStart(2, '0')}` : ''}`;
+}
+
+export function listTimeZones(): TimeZoneOption[] {
+  return getTimeZones()
+    .map(tz => ({
+      name: tz.name,
+      label: `${tz.name} (${formatUtcOffset(tz.rawOffsetInMinutes / 60)})`,
+      rawOffsetMinutes: tz.rawOffsetInMinutes,
+    }))
+    .sort((a, b) => a.rawOffsetMinutes - b.rawOffsetMinutes || a.name.localeCompare(b.name));
+}
+
+// Offline coordinate-to-zone lookup using bundled timezone-boundary data.
+// Returns null for invalid coordinates or a zone this runtime cannot resolve.
+export function lookupTimeZone(latitudeDeg: number, longitudeDeg: number): TimeZoneLookupResult | null {
+  let timeZone: string;
+  try {
+    timeZone = tzLookup(latitudeDeg, longitudeDeg);
+  } catch {
+    return null;
+  }
+  if (!isValidTimeZone(timeZone)) return null;
+  return { timeZone, standardOffsetHours: standardOffsetMinutes(timeZone) / 60 };
+}
@@ -0,0 +1,63 @@
+// Check the world-map grid against the full analemma pipeline and against itself across clocks
+// Run: npx esbuild test-analemma-grid.js --bundle --platform=node --log-level=error | node
+import { computeAnalemmaGrid, computeAnalemmaPoints, measureAnalemma } from './src/solar.ts';
+
+console.log('=== Testing Analemma Grid ===\n');
+
+let failures = 0;
+function check(label, ok, detail) {
+  if (!ok) failures++;
+  console.log(`${ok ? 'PASS' : 'FAIL'} ${label}: ${detail}`);
+}
+
+// A cell at 51.5°N, +20 min, 14:00 on a UTC+1 clock is a site 5° east of the 15°E zone meridian
+const cell = computeAnalemmaGrid({ year: 2025, clockMinutes: 14 * 60, utcOffsetMinutes: 60, latitudesDeg: [51.5], clockOffsetsMinutes: [20] })[0];
+const points = computeAnalemmaPoints({
+  latitudeDeg: 51.5,
+  longitudeDeg: 20,
+  tzOffsetHours: 1,
+  timeMode: { kind: 'fixedLocalTime', hh: 14, mm: 0 },
+  year: 2025,
+  sampling: { startDateISO: '2025-01-01', endDateISO: '2025-12-31', stepDays: 2 },
+});
+const shape = measureAnalemma(points);
+const visibleFraction = points.filter(p => p.visible).length / points.length;
+for (const [label, gridValue, pointValue] of [
+  ['Height', cell.heightDeg, shape.heightDeg],
+  ['Width', cell.widthDeg, shape.widthDeg],
+  ['Axis tilt', cell.axisTiltDeg, shape.axisTiltDeg],
+  ['Lobe ratio', cell.lobeAreaRatio, shape.lobeAreaRatio],
+  ['Year above the horizon', cell.visibleFraction, visibleFraction],
+]) {
+  check(`${label} matches measureAnalemma`, Math.abs(gridValue - pointValue) < 1e-6, `${gridValue.toFixed(4)} vs ${pointValue.toFixed(4)}`);
+}
+
+// The same instant read on a UTC clock (13:00) gives the same cell
+const utcCell = computeAnalemmaGrid({ year: 2025, clockMinutes: 13 * 60, latitudesDeg: [51.5], clockOffsetsMinutes: [80] })[0];
+check('UTC+1 14:00 matches UTC 13:00', Math.abs(utcCell.axisTiltDeg - cell.axisTiltDeg) < 1e-9, `tilt ${utcCell.axisTiltDeg.toFixed(4)}° vs ${cell.axisTiltDeg.toFixed(4)}°`);
+
+// With an IANA zone, summer dates follow daylight saving like the main chart: London at 12:00 clock time
+const dstCell = computeAnalemmaGrid({ year: 2025, clockMinutes: 12 * 60, utcOffsetMinutes: 0, timeZone: 'Europe/London', latitudesDeg: [51.5], clockOffsetsMinutes: [0] })[0];
+const dstShape = measureAnalemma(computeAnalemmaPoints({
+  latitudeDeg: 51.5,
+  longitudeDeg: 0,
+  tzOffsetHours: 0,
+  timeZone: 'Europe/London',
+  timeMode: { kind: 'fixedLocalTime', hh: 12, mm: 0 },
+  year: 2025,
+  sampling: { startDateISO: '2025-01-01', endDateISO: '2025-12-31', stepDays: 2 },
+}));
+check('Europe/London grid cell matches the DST-aware chart', Math.abs(dstCell.heightDeg - dstShape.heightDeg) < 1e-6 && Math.abs(dstCell.axisTiltDeg - dstShape.axisTiltDeg) < 1e-6,
+  `height ${dstCell.heightDeg.toFixed(4)}° vs ${dstShape.heightDeg.toFixed(4)}°, tilt ${dstCell.axisTiltDeg.toFixed(4)}° vs ${dstShape.axisTiltDeg.toFixed(4)}°`);
+
+// At mean noon the figure is close to upright, and on the equator the Sun is up all year at noon
+const noon = computeAnalemmaGrid({ year: 2025, clockMinutes: 12 * 60, latitudesDeg: [0, 51.5], clockOffsetsMinutes: [0] });
+check('Equator at mean noon is always up', noon[0].visibleFraction === 1, `${noon[0].visibleFraction}`);
+check('51.5°N at mean noon is near upright', Math.abs(noon[1].axisTiltDeg) <= 2, `${noon[1].axisTiltDeg.toFixed(2)}°`);
+
+// Mid-morning figures lean one way and mid-afternoon ones the other
+const tilts = computeAnalemmaGrid({ year: 2025, clockMinutes: 12 * 60, latitudesDeg: [51.5], clockOffsetsMinutes: [-180, 180] });
+check('Morning and afternoon tilts have opposite signs', Math.sign(tilts[0].axisTiltDeg) === -Math.sign(tilts[1].axisTiltDeg), `${tilts[0].axisTiltDeg.toFixed(1)}° and ${tilts[1].axisTiltDeg.toFixed(1)}°`);
+
+console.log(failures === 0 ? '\nAll checks passed' : `\n${failures} check(s) failed`);
+process.exitCode = failures === 0 ? 0 : 1;
@@ -0,0 +1,52 @@
+// Check the measured analemma shape against known properties of the figure
+// Run: npx esbuild test-analemma-shape.js --bundle --platform=node --log-level=error | node
+import { MARS, computeAnalemmaPoints, measureAnalemma } from './src/solar.ts';
+
+console.log('=== Testing Analemma Shape ===\n');
+
+let failures = 0;
+function check(label, ok, detail) {
+  if (!ok) failures++;
+  console.log(`${ok ? 'PASS' : 'FAIL'} ${label}: ${detail}`);
+}
+const near = (dateISO, expectedISO, days) => Math.abs(Date.parse(dateISO) - Date.parse(expectedISO)) <= days * 86400000;
+
+const london = { latitudeDeg: 51.5074, longitudeDeg: -0.1278, tzOffsetHours: 0, timeMode: { kind: 'meanSolarTime', hh: 12, mm: 0 }, year: 2024 };
+
+// Full year at mean noon: the height is twice the obliquity (2 × 23.44°), and the figure-eight
+// crosses itself around 15 April and 30 August, with a large southern (winter) lobe
+const year = measureAnalemma(computeAnalemmaPoints(london));
+check('Full year is a closed loop', year.closedLoop, String(year.closedLoop));
+check('Height', Math.abs(year.heightDeg - 46.88) <= 0.2, `${year.heightDeg.toFixed(2)}° (expected 46.88° ± 0.2)`);
+check('Axis tilt', Math.abs(year.axisTiltDeg) <= 2, `${year.axisTiltDeg.toFixed(2)}° (expected near upright at mean noon)`);
+check('Lobe ratio', year.lobeAreaRatio !== null && year.lobeAreaRatio > 3, `${year.lobeAreaRatio?.toFixed(2)} (expected a large winter lobe, > 3 : 1)`);
+const dates = year.intersection?.dates ?? [];
+check(
+  'Crossing dates',
+  dates.length === 2 && near(dates[0], '2024-04-15', 4) && near(dates[1], '2024-08-30', 4),
+  `${dates.join(' and ') || 'none'} (expected about 2024-04-15 and 2024-08-30 ± 4 days)`
+);
+
+// Every other day over the year is still one closed loop
+const everyOtherDay = measureAnalemma(computeAnalemmaPoints({ ...london, sampling: { startDateISO: '2024-01-01', endDateISO: '2024-12-31', stepDays: 2 } }));
+check('Every other day is a closed loop', everyOtherDay.closedLoop && everyOtherDay.lobeAreaRatio !== null, `ratio ${everyOtherDay.lobeAreaRatio?.toFixed(2)}`);
+
+// Half a year or two years do not close, so there are no lobes or crossing to report
+for (const [label, sampling] of [
+  ['January to June', { startDateISO: '2024-01-01', endDateISO: '2024-06-30' }],
+  ['Two years', { startDateISO: '2024-01-01', endDateISO: '2025-12-31' }],
+]) {
+  const shape = measureAnalemma(computeAnalemmaPoints({ ...london, sampling }));
+  check(`${label} is open`, !shape.closedLoop && shape.intersection === null && shape.largeLobeAreaSqDeg === null, `closed ${shape.closedLoop}, crossing ${shape.intersection ? 'found' : 'none'}`);
+}
+
+// The Moon's figure does not close after a year either
+const moon = measureAnalemma(computeAnalemmaPoints({ ...london, target: 'moon' }));
+check('Moon is open', !moon.closedLoop && moon.lobeAreaRatio === null, `closed ${moon.closedLoop}`);
+
+// Mars: one body year closes into a teardrop without a crossing
+const mars = measureAnalemma(computeAnalemmaPoints({ ...london, body: MARS, latitudeDeg: 0 }));
+check('Mars is a single closed loop', mars.closedLoop && mars.intersection === null && mars.largeLobeAreaSqDeg > 0, `closed ${mars.closedLoop}, area ${mars.largeLobeAreaSqDeg?.toFixed(1)} deg²`);
+
+console.log(failures === 0 ? '\nAll checks passed' : `\n${failures} check(s) failed`);
+process.exitCode = failures === 0 ? 0 : 1;
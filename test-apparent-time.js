@@ -0,0 +1,35 @@
+// Check that apparent-solar-time samples are timestamped at the instant the Sun is on the hour angle asked for
+// Run: npx esbuild test-apparent-time.js --bundle --platform=node --log-level=error | node
+import { computeAnalemmaPoints, sunPositionAt } from './src/solar.ts';
+
+console.log('=== Testing Apparent Solar Time Instants ===\n');
+
+let failures = 0;
+function check(label, ok, detail) {
+  if (!ok) failures++;
+  console.log(`${ok ? 'PASS' : 'FAIL'} ${label}: ${detail}`);
+}
+
+// London, 10 Nov 2025: the EoT is about +16 min, so apparent noon comes near 11:44 UT
+const london = { latitudeDeg: 51.5074, longitudeDeg: -0.1278, tzOffsetHours: 0, year: 2025 };
+const sampling = { startDateISO: '2025-11-10', endDateISO: '2025-11-10' };
+
+for (const engine of ['noaa', 'meeus']) {
+  console.log(`\n${engine}:`);
+  for (const [hh, expectedHourAngle] of [[12, 0], [15, 45]]) {
+    const point = computeAnalemmaPoints({ ...london, ephemeris: engine, timeMode: { kind: 'apparentSolarTime', hh, mm: 0 }, sampling })[0];
+    const atInstant = sunPositionAt({ ...london, ephemeris: engine }, point.timestampMs);
+    const error = atInstant.hourAngleDeg - expectedHourAngle;
+    check(
+      `${hh}:00 apparent time`,
+      Math.abs(error) <= 0.05,
+      `${new Date(point.timestampMs).toISOString().slice(11, 19)} UT, hour angle there ${atInstant.hourAngleDeg.toFixed(3)}° (expected ${expectedHourAngle}° ± 0.05)`
+    );
+  }
+  const noon = computeAnalemmaPoints({ ...london, ephemeris: engine, timeMode: { kind: 'apparentSolarTime', hh: 12, mm: 0 }, sampling })[0];
+  const noonUtMinutes = (noon.timestampMs - Date.parse('2025-11-10T00:00Z')) / 60000;
+  check('Apparent noon in UT', Math.abs(noonUtMinutes - (11 * 60 + 44)) <= 1, `${noonUtMinutes.toFixed(1)} min (expected about 11:44, ± 1 min)`);
+}
+
+console.log(failures === 0 ? '\nAll checks passed' : `\n${failures} check(s) failed`);
+process.exitCode = failures === 0 ? 0 : 1;
@@ -0,0 +1,43 @@
+// Check the equation of time's extrema and zero crossings against published values
+// Run: npx esbuild test-eot-key-dates.js --bundle --platform=node --log-level=error | node
+import { computeEquationOfTime, findEotKeyDates } from './src/solar.ts';
+
+console.log('=== Testing Equation of Time Key Dates ===\n');
+
+let failures = 0;
+
+// 2025 reference values (apparent minus mean solar time): extremes of about −14.2 min on 11 Feb
+// and +16.4 min on 3 Nov, smaller ones on 14 May and 26 Jul, and zeros near 15 Apr, 13 Jun,
+// 1 Sep and 25 Dec
+const expected = [
+  { kind: 'min', dateISO: '2025-02-11', eotMinutes: -14.2 },
+  { kind: 'zero', dateISO: '2025-04-15', eotMinutes: 0 },
+  { kind: 'max', dateISO: '2025-05-14', eotMinutes: 3.7 },
+  { kind: 'zero', dateISO: '2025-06-13', eotMinutes: 0 },
+  { kind: 'min', dateISO: '2025-07-26', eotMinutes: -6.5 },
+  { kind: 'zero', dateISO: '2025-09-01', eotMinutes: 0 },
+  { kind: 'max', dateISO: '2025-11-03', eotMinutes: 16.4 },
+  { kind: 'zero', dateISO: '2025-12-25', eotMinutes: 0 },
+];
+const DAY_TOLERANCE = 2;
+const MINUTE_TOLERANCE = 0.3;
+
+for (const engine of ['noaa', 'meeus']) {
+  console.log(`\n${engine}:`);
+  const keyDates = findEotKeyDates(computeEquationOfTime(2025, engine));
+  if (keyDates.length !== expected.length) {
+    failures++;
+    console.log(`FAIL found ${keyDates.length} key dates (expected ${expected.length})`);
+  }
+  expected.forEach((want, i) => {
+    const got = keyDates[i];
+    const dayError = got ? (Date.parse(got.dateISO) - Date.parse(want.dateISO)) / 86400000 : NaN;
+    const ok = got !== undefined && got.kind === want.kind
+      && Math.abs(dayError) <= DAY_TOLERANCE && Math.abs(got.eotMinutes - want.eotMinutes) <= MINUTE_TOLERANCE;
+    if (!ok) failures++;
+    console.log(`${ok ? 'PASS' : 'FAIL'} ${want.kind} ${got ? `${got.dateISO} ${got.eotMinutes.toFixed(2)} min` : 'missing'} (expected ${want.dateISO} ${want.eotMinutes} min)`);
+  });
+}
+
+console.log(failures === 0 ? '\nAll checks passed' : `\n${failures} check(s) failed`);
+process.exitCode = failures === 0 ? 0 : 1;
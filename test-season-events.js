@@ -0,0 +1,44 @@
+// Check equinox, solstice and apsis instants against published values
+// Run: npx esbuild test-season-events.js --bundle --platform=node --log-level=error | node
+import { findSeasonEvents } from './src/solar.ts';
+
+console.log('=== Testing Season Events ===\n');
+
+let failures = 0;
+function check(label, actualMs, expectedISO, toleranceMinutes) {
+  const errorMinutes = (actualMs - Date.parse(expectedISO)) / 60000;
+  const ok = Math.abs(errorMinutes) <= toleranceMinutes;
+  if (!ok) failures++;
+  console.log(`${ok ? 'PASS' : 'FAIL'} ${label}: ${new Date(actualMs).toISOString().slice(0, 16)} UT (expected ${expectedISO.slice(0, 16)}, off by ${errorMinutes.toFixed(1)} min, ± ${toleranceMinutes})`);
+}
+
+// 2024 instants from the US Naval Observatory. The apsides come from the mean anomaly,
+// and the Moon moves Earth's true perihelion by up to a day, so they get a wider tolerance.
+const expected2024 = {
+  marchEquinox: ['2024-03-20T03:06Z', 15],
+  juneSolstice: ['2024-06-20T20:51Z', 15],
+  septemberEquinox: ['2024-09-22T12:44Z', 15],
+  decemberSolstice: ['2024-12-21T09:20Z', 15],
+  perihelion: ['2024-01-03T00:38Z', 24 * 60],
+  aphelion: ['2024-07-05T05:06Z', 24 * 60],
+};
+
+const events = findSeasonEvents(2024, { tzOffsetHours: 0 });
+for (const [kind, [iso, tolerance]] of Object.entries(expected2024)) {
+  const event = events.find(e => e.kind === kind);
+  if (!event) {
+    failures++;
+    console.log(`FAIL ${kind}: not found`);
+    continue;
+  }
+  check(event.label, event.utcMs, iso, tolerance);
+}
+
+// On a London clock the June solstice falls at 21:51 BST on 20 June
+const london = findSeasonEvents(2024, { tzOffsetHours: 0, timeZone: 'Europe/London' }).find(e => e.kind === 'juneSolstice');
+const londonOk = london.dateISO === '2024-06-20' && Math.abs(Number(london.localTime.slice(0, 2)) * 60 + Number(london.localTime.slice(3)) - (21 * 60 + 51)) <= 15;
+if (!londonOk) failures++;
+console.log(`\n${londonOk ? 'PASS' : 'FAIL'} June solstice on a London clock: ${london.dateISO} ${london.localTime} (expected 2024-06-20 21:51)`);
+
+console.log(failures === 0 ? '\nAll checks passed' : `\n${failures} check(s) failed`);
+process.exitCode = failures === 0 ? 0 : 1;
@@ -0,0 +1,37 @@
+// Check sunrise, sunset and solar noon against published values for London
+// Run: npx esbuild test-sun-times.js --bundle --platform=node --log-level=error | node
+import { computeSunTimes } from './src/solar.ts';
+
+console.log('=== Testing Sun Times ===\n');
+
+let failures = 0;
+function check(label, actual, expected, tolerance) {
+  const ok = actual !== null && Math.abs(actual - expected) <= tolerance;
+  if (!ok) failures++;
+  console.log(`${ok ? 'PASS' : 'FAIL'} ${label}: ${actual === null ? 'none' : actual.toFixed(1)} (expected ${expected} ± ${tolerance})`);
+}
+const clock = (hh, mm) => hh * 60 + mm;
+
+// London (51.5074°N, 0.1278°W), Europe/London clock. Reference times from the US Naval Observatory
+for (const engine of ['noaa', 'meeus']) {
+  const days = computeSunTimes({ latitudeDeg: 51.5074, longitudeDeg: -0.1278, tzOffsetHours: 0, timeZone: 'Europe/London', year: 2024, ephemeris: engine });
+  const june = days.find(d => d.dateISO === '2024-06-21');
+  const december = days.find(d => d.dateISO === '2024-12-21');
+  console.log(`\n${engine}:`);
+  check('21 Jun 2024 sunrise (BST)', june.sunrise, clock(4, 43), 2);
+  check('21 Jun 2024 sunset (BST)', june.sunset, clock(21, 21), 2);
+  check('21 Jun 2024 solar noon (BST)', june.solarNoon, clock(13, 2), 1);
+  check('21 Jun 2024 noon altitude', june.noonAltitudeDeg, 61.9, 0.2);
+  check('21 Dec 2024 sunrise (GMT)', december.sunrise, clock(8, 4), 2);
+  check('21 Dec 2024 sunset (GMT)', december.sunset, clock(15, 53), 2);
+}
+
+// Tromsø (69.65°N) has midnight sun at the June solstice and polar night at the December one
+const tromso = computeSunTimes({ latitudeDeg: 69.65, longitudeDeg: 18.96, tzOffsetHours: 1, timeZone: 'Europe/Oslo', year: 2024 });
+const polarJune = tromso.find(d => d.dateISO === '2024-06-21').polar;
+const polarDecember = tromso.find(d => d.dateISO === '2024-12-21').polar;
+if (polarJune !== 'day' || polarDecember !== 'night') failures++;
+console.log(`\n${polarJune === 'day' && polarDecember === 'night' ? 'PASS' : 'FAIL'} Tromsø polar day/night: ${polarJune}, ${polarDecember}`);
+
+console.log(failures === 0 ? '\nAll checks passed' : `\n${failures} check(s) failed`);
+process.exitCode = failures === 0 ? 0 : 1;